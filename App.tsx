@@ -1,48 +1,877 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import Viewer3D from './components/Viewer3D';
 import Sidebar from './components/Sidebar';
-import { ModelDimensions, ViewerMode } from './types';
+import { ModelDimensions, ViewerMode, MeshDiagnostics, MeshIssueCategory, MeshRepairReport, SceneObject, PrinterProfile, LoadProgress, OrientationCandidate, SectionPlane, CrossSection, Measurement, MeasurementKind, SnapMode, LengthUnit, PrintSettings, AnalysisMessage, ReportFormat, CameraPose, Session, SessionSummary, ModelView, GeometryFacts, AlignmentMethod, TransformState, TransformHistoryEntry, CutOptions, HollowSettings, DrainHole, ImageExportOptions } from './types';
+import { repairMesh } from './utils/meshRepair';
+import { geometryToSTL, downloadBlob, bakeViewerTransform } from './utils/stlExport';
+import { loadModel, prepareGeometry } from './utils/modelLoader';
+import { fitsBuildVolume, computeScaleToFit } from './utils/printerProfiles';
+import { DEFAULT_OVERHANG_ANGLE, classifyFaces } from './utils/overhang';
+import { suggestOrientations } from './utils/autoOrient';
+import { sectionToSVG, sectionToDXF } from './utils/sectionExport';
+import { measurementKind, transformMeasurement } from './utils/measurements';
+import { rescaleForSourceUnit, formatLength } from './utils/units';
+import { rotateAboutAxis, axisScaleMatrix, bakeGeometry, scaleForDimension, placementMatrix } from './utils/transform';
+import { cutGeometry, DEFAULT_CUT_OPTIONS } from './utils/meshCut';
+import { computeTransformedBounds, computeMeshMetrics } from './utils/meshMetrics';
+import { analyzeHollow, buildHollowGeometry, summarizeHollow, hollowGridStep, DEFAULT_HOLLOW_SETTINGS } from './utils/hollow';
+import { streamAnalysis, resetChat } from './services/geminiService';
+import { analyzeWallThickness, summarizeThinRegions, DEFAULT_MIN_THICKNESS } from './utils/wallThickness';
+import { analyzeDeviation, summarizeDeviation, DEFAULT_DEVIATION_TOLERANCE } from './utils/deviation';
+import { estimatePrint, formatEstimateSummary, DEFAULT_PRINT_SETTINGS } from './utils/printEstimate';
+import { buildReport, reportToHTML, reportToJSON, printHTML } from './utils/report';
+import { saveSession, listSessions, loadSession, deleteSession, fileIdFor, createSessionBundle, readSessionBundle, SESSION_BUNDLE_EXTENSION } from './utils/sessionStore';
+
+// Gap left between objects placed side by side on the floor (mm)
+const PLACEMENT_GAP = 10;
+
+// Quiet period before the session is written to IndexedDB (ms)
+const SESSION_SAVE_DELAY = 1000;
+// Undo steps kept, and the time within which repeats of the same edit merge into one
+const HISTORY_LIMIT = 50;
+const HISTORY_MERGE_WINDOW = 1000;
+// Asked when the user sends an empty message; it is also what the chat shows and resends
+const DEFAULT_ANALYSIS_PROMPT = 'What is this object and what are the 3D printing considerations?';
+
+// -90 degree rotation on X converts Z-up (STL standard) to Y-up (Three.js standard)
+const createDefaultRotation = () => {
+  const q = new THREE.Quaternion();
+  q.setFromEuler(new THREE.Euler(-Math.PI / 2, 0, 0));
+  return q;
+};
+
+const createObjectId = () => Math.random().toString(36).slice(2, 10);
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// What a deviation result was computed from; it is stale once any of it changes
+interface DeviationInput {
+  objectId: string;
+  referenceId: string;
+  alignment: AlignmentMethod;
+  geometry: THREE.BufferGeometry;
+  referenceGeometry: THREE.BufferGeometry;
+  rotation: THREE.Quaternion;
+  referenceRotation: THREE.Quaternion;
+  scale: number;
+  referenceScale: number;
+}
+
+const sameDeviationInput = (a: DeviationInput, b: DeviationInput) =>
+  a.objectId === b.objectId &&
+  a.referenceId === b.referenceId &&
+  a.alignment === b.alignment &&
+  a.geometry === b.geometry &&
+  a.referenceGeometry === b.referenceGeometry &&
+  a.rotation.equals(b.rotation) &&
+  a.referenceRotation.equals(b.referenceRotation) &&
+  a.scale === b.scale &&
+  a.referenceScale === b.referenceScale;
 
 const App: React.FC = () => {
-  const [fileUrl, setFileUrl] = useState<string | null>(null);
-  const [dimensions, setDimensions] = useState<ModelDimensions | null>(null);
+  const [objects, setObjects] = useState<SceneObject[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [dimensions, setDimensions] = useState<Record<string, ModelDimensions>>({});
   const [viewerMode, setViewerMode] = useState<ViewerMode>(ViewerMode.VIEW);
-  const [scale, setScale] = useState<number>(1);
-  
-  // Initialize with -90 degree rotation on X to convert Z-up (STL standard) to Y-up (Three.js standard)
-  const [meshRotation, setMeshRotation] = useState<THREE.Quaternion>(() => {
-    const q = new THREE.Quaternion();
-    q.setFromEuler(new THREE.Euler(-Math.PI / 2, 0, 0));
-    return q;
-  });
+  const [diagnostics, setDiagnostics] = useState<Record<string, MeshDiagnostics>>({});
+  const [highlightedIssue, setHighlightedIssue] = useState<MeshIssueCategory | null>(null);
+  const [overhangAngle, setOverhangAngle] = useState<number>(DEFAULT_OVERHANG_ANGLE);
+  const [overhangAreas, setOverhangAreas] = useState<Record<string, number>>({});
+  const [orientationOptions, setOrientationOptions] = useState<{ objectId: string, candidates: OrientationCandidate[] } | null>(null);
+  const [printer, setPrinter] = useState<PrinterProfile | null>(null);
+  // `source` is the geometry that was repaired; the result is stale once the object's geometry changes
+  const [repairResult, setRepairResult] = useState<{ objectId: string, source: THREE.BufferGeometry, geometry: THREE.BufferGeometry, report: MeshRepairReport } | null>(null);
+  const [sectionPlane, setSectionPlane] = useState<SectionPlane>({ normal: [0, 1, 0], offset: 0 });
+  const [cutOptions, setCutOptions] = useState<CutOptions>(DEFAULT_CUT_OPTIONS);
+  const [cutResult, setCutResult] = useState<{ partIds: string[], openContours: number, pins: { count: number, depth: number, diameter: number } } | null>(null);
+  const [cutError, setCutError] = useState<string | null>(null);
+  const [sections, setSections] = useState<Record<string, CrossSection>>({});
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [measureKind, setMeasureKind] = useState<MeasurementKind>('distance');
+  const [snapMode, setSnapMode] = useState<SnapMode>('none');
+  const [displayUnit, setDisplayUnit] = useState<LengthUnit>('mm');
+  const [unitHintDismissed, setUnitHintDismissed] = useState<string[]>([]);
+  const [minThickness, setMinThickness] = useState<number>(DEFAULT_MIN_THICKNESS);
+  const [wallThickness, setWallThickness] = useState<Record<string, { geometry: THREE.BufferGeometry, thickness: Float32Array, faces: Uint32Array }>>({});
+  const [thicknessJob, setThicknessJob] = useState<{ objectId: string, progress: number } | null>(null);
+  const [thicknessError, setThicknessError] = useState<string | null>(null);
+  const [hollowSettings, setHollowSettings] = useState<HollowSettings>(DEFAULT_HOLLOW_SETTINGS);
+  const [hollowShells, setHollowShells] = useState<Record<string, { geometry: THREE.BufferGeometry, thickness: number, shell: THREE.BufferGeometry, volume: number }>>({});
+  const [hollowJob, setHollowJob] = useState<{ objectId: string, geometry: THREE.BufferGeometry, thickness: number, progress: number } | null>(null);
+  // Both errors belong to the geometry they came from, so another object starts clean
+  const [hollowError, setHollowError] = useState<{ geometry: THREE.BufferGeometry, message: string } | null>(null);
+  const [hollowExportError, setHollowExportError] = useState<{ geometry: THREE.BufferGeometry, message: string } | null>(null);
+  const [drainHoles, setDrainHoles] = useState<Record<string, { geometry: THREE.BufferGeometry, holes: DrainHole[] }>>({});
+  const [compareReferenceId, setCompareReferenceId] = useState<string | null>(null);
+  const [alignment, setAlignment] = useState<AlignmentMethod>('center');
+  const [deviationTolerance, setDeviationTolerance] = useState<number>(DEFAULT_DEVIATION_TOLERANCE);
+  const [deviation, setDeviation] = useState<{ input: DeviationInput, distances: Float32Array, rms: number } | null>(null);
+  const [deviationJob, setDeviationJob] = useState<{ input: DeviationInput, progress: number } | null>(null);
+  const [deviationError, setDeviationError] = useState<string | null>(null);
+  const [printSettings, setPrintSettings] = useState<PrintSettings>(DEFAULT_PRINT_SETTINGS);
+  const [messages, setMessages] = useState<Record<string, AnalysisMessage[]>>({});
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  const [reportSnapshots, setReportSnapshots] = useState<string[]>([]);
+  const [imageExportOptions, setImageExportOptions] = useState<ImageExportOptions>({ width: 3840, height: 2160, transparent: false, dimensions: false });
+  const [imageExportError, setImageExportError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [restoredCamera, setRestoredCamera] = useState<CameraPose | null>(null);
+  const [cameraVersion, setCameraVersion] = useState(0);
+  const [history, setHistory] = useState<{ undo: TransformHistoryEntry[], redo: TransformHistoryEntry[] }>({ undo: [], redo: [] });
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const cancelThicknessRef = useRef<(() => void) | null>(null);
+  const cancelHollowRef = useRef<(() => void) | null>(null);
+  const cancelDeviationRef = useRef<(() => void) | null>(null);
+  const cancelLoadRef = useRef<(() => void) | null>(null);
+  const cameraPoseRef = useRef<CameraPose | null>(null);
+  const renderViewsRef = useRef<(() => ModelView[]) | null>(null);
+  const renderImageRef = useRef<((options: ImageExportOptions) => HTMLCanvasElement) | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  const selectedObject = objects.find(o => o.id === selectedId) ?? null;
+  const selectedDiagnostics = selectedId ? diagnostics[selectedId] ?? null : null;
+
+  // Results are only valid for the geometry they were computed from
+  const currentThickness = useMemo(() => {
+    const result: Record<string, Float32Array> = {};
+    for (const object of objects) {
+      const entry = wallThickness[object.id];
+      if (entry && entry.geometry === object.geometry) result[object.id] = entry.thickness;
+    }
+    return result;
+  }, [objects, wallThickness]);
+
+  const thicknessSummary = useMemo(() => {
+    if (!selectedObject || !currentThickness[selectedObject.id]) return null;
+    const { thickness, faces } = wallThickness[selectedObject.id];
+    return summarizeThinRegions(selectedObject.geometry, thickness, faces, selectedObject.scale, minThickness);
+  }, [selectedObject, currentThickness, wallThickness, minThickness]);
 
-  const handleFileUpload = useCallback((file: File) => {
-    if (fileUrl) {
-      URL.revokeObjectURL(fileUrl);
+  // Hollowing works on the repaired mesh while the repair matches the object's geometry
+  const hollowSource = useMemo(() => {
+    if (!selectedObject) return null;
+    if (repairResult?.objectId === selectedObject.id && repairResult.source === selectedObject.geometry) {
+      return { geometry: repairResult.geometry, isWatertight: repairResult.report.isWatertight };
     }
-    const url = URL.createObjectURL(file);
-    setFileUrl(url);
-    setDimensions(null);
+    return { geometry: selectedObject.geometry, isWatertight: selectedDiagnostics?.isWatertight ?? null };
+  }, [selectedObject, repairResult, selectedDiagnostics]);
+
+  // The inner shell depends on the wall thickness in geometry units, so rescaling invalidates it too
+  const hollowThickness = selectedObject ? hollowSettings.wallThickness / selectedObject.scale : 0;
+  const currentShell = useMemo(() => {
+    const entry = selectedObject ? hollowShells[selectedObject.id] : null;
+    return entry && entry.geometry === hollowSource?.geometry && entry.thickness === hollowThickness ? entry : null;
+  }, [selectedObject, hollowShells, hollowSource, hollowThickness]);
+
+  // Large models are hollowed on a grid coarser than half the wall, which can thin the walls
+  const hollowCoarse = useMemo(() => {
+    if (!hollowSource) return false;
+    const { geometry } = hollowSource;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    return hollowGridStep(geometry.boundingBox!.getSize(new THREE.Vector3()), hollowThickness) > hollowThickness / 2;
+  }, [hollowSource, hollowThickness]);
+
+  const currentHoles = useMemo(() => {
+    const entry = selectedObject ? drainHoles[selectedObject.id] : null;
+    return entry && entry.geometry === selectedObject?.geometry ? entry.holes : [];
+  }, [selectedObject, drainHoles]);
+
+  const currentHollowError = hollowError && hollowError.geometry === hollowSource?.geometry ? hollowError.message : null;
+  const currentHollowExportError = hollowExportError && hollowExportError.geometry === hollowSource?.geometry ? hollowExportError.message : null;
+
+  const hollowSummary = useMemo(() => {
+    const dims = selectedId ? dimensions[selectedId] : null;
+    if (!selectedObject || !dims || !currentShell) return null;
+    return summarizeHollow(dims.meshVolume, currentShell.volume, selectedObject.scale, currentHoles.length, hollowSettings);
+  }, [selectedObject, selectedId, dimensions, currentShell, currentHoles, hollowSettings]);
+
+  const printEstimate = useMemo(() => {
+    const dims = selectedId ? dimensions[selectedId] : null;
+    if (!dims) return null;
+    return estimatePrint(dims.meshVolume, dims.surfaceArea, dims.height, printSettings);
+  }, [selectedId, dimensions, printSettings]);
+
+  const outOfBoundsIds = useMemo(() => {
+    if (!printer) return [];
+    return objects
+      .filter(o => o.visible && dimensions[o.id] && !fitsBuildVolume(dimensions[o.id], o.position, printer))
+      .map(o => o.id);
+  }, [objects, dimensions, printer]);
+
+  // Extent of the visible objects along the section normal, used as the slider range
+  const sectionRange = useMemo((): [number, number] => {
+    const normal = new THREE.Vector3(...sectionPlane.normal).normalize();
+    let min = Infinity;
+    let max = -Infinity;
+    for (const object of objects) {
+      const dims = dimensions[object.id];
+      if (!object.visible || !dims) continue;
+      const box = new THREE.Box3(
+        new THREE.Vector3(object.position[0] - dims.width / 2, 0, object.position[1] - dims.depth / 2),
+        new THREE.Vector3(object.position[0] + dims.width / 2, dims.height, object.position[1] + dims.depth / 2)
+      );
+      for (let i = 0; i < 8; i++) {
+        const corner = new THREE.Vector3(
+          i & 1 ? box.max.x : box.min.x,
+          i & 2 ? box.max.y : box.min.y,
+          i & 4 ? box.max.z : box.min.z
+        );
+        const distance = corner.dot(normal);
+        min = Math.min(min, distance);
+        max = Math.max(max, distance);
+      }
+    }
+    return min === Infinity ? [0, 0] : [min, max];
+  }, [objects, dimensions, sectionPlane.normal]);
+
+  // Falls back to the raw footprint for objects whose dimensions are not reported yet
+  const objectWidth = useCallback((object: SceneObject) => {
+    const box = object.geometry.boundingBox;
+    return dimensions[object.id]?.width ?? (box ? (box.max.x - box.min.x) * object.scale : 0);
+  }, [dimensions]);
+
+  const updateObject = useCallback((id: string, changes: Partial<SceneObject>) => {
+    setObjects(prev => prev.map(o => (o.id === id ? { ...o, ...changes } : o)));
+  }, []);
+
+  // Moves the measurements of an object along with its baked geometry
+  const moveMeasurements = useCallback((id: string, matrix: THREE.Matrix4) => {
+    setMeasurements(prev => prev.map(m => (m.objectId === id ? transformMeasurement(m, matrix) : m)));
+  }, []);
+
+  // Every rotation, scale and geometry change goes through here so it can be undone
+  const transformObject = useCallback((
+    id: string,
+    label: string,
+    changes: Partial<TransformState>,
+    { bake = null, merge = false }: { bake?: THREE.Matrix4 | null, merge?: boolean } = {}
+  ) => {
+    const object = objects.find(o => o.id === id);
+    if (!object) return;
+    const { geometry, metrics, file, sourceUnit, rotation, scale, position } = object;
+    const before: TransformState = { geometry, metrics, file, sourceUnit, rotation, scale, ...(changes.position ? { position } : {}) };
+    const after: TransformState = { ...before, ...changes };
+    updateObject(id, changes);
+    if (bake) {
+      moveMeasurements(id, bake);
+      if (repairResult?.objectId === id) {
+        repairResult.geometry.dispose();
+        setRepairResult(null);
+      }
+    }
+
+    const time = Date.now();
+    const last = history.undo[history.undo.length - 1];
+    const undo = merge && last && !last.bake && last.objectId === id && last.label === label && time - last.time < HISTORY_MERGE_WINDOW
+      ? [...history.undo.slice(0, -1), { ...last, after, time }]
+      : [...history.undo, { objectId: id, label, before, after, bake, time }];
+    const dropped = undo.splice(0, Math.max(undo.length - HISTORY_LIMIT, 0));
+    // Baked geometries that only the discarded steps could bring back
+    history.redo.forEach(entry => entry.bake && entry.after.geometry.dispose());
+    dropped.forEach(entry => entry.bake && entry.before.geometry.dispose());
+    setHistory({ undo, redo: [] });
+  }, [objects, history, repairResult, updateObject, moveMeasurements]);
+
+  const handleUndo = useCallback(() => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    updateObject(entry.objectId, entry.before);
+    if (entry.bake) moveMeasurements(entry.objectId, entry.bake.clone().invert());
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, entry] });
+  }, [history, updateObject, moveMeasurements]);
+
+  const handleRedo = useCallback(() => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    updateObject(entry.objectId, entry.after);
+    if (entry.bake) moveMeasurements(entry.objectId, entry.bake);
+    setHistory({ undo: [...history.undo, entry], redo: history.redo.slice(0, -1) });
+  }, [history, updateObject, moveMeasurements]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; form fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target.closest('input, select, textarea')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleSelectObject = useCallback((id: string | null) => {
+    setSelectedId(id);
+    setHighlightedIssue(null);
+  }, []);
+
+  const handleFileUpload = useCallback(async (file: File): Promise<string | null> => {
+    setIsLoading(true);
+    setLoadError(null);
+
+    const job = loadModel(file, setLoadProgress);
+    cancelLoadRef.current = job.cancel;
+    let loaded: Awaited<typeof job.promise>;
+    try {
+      loaded = await job.promise;
+    } catch (error: any) {
+      // A cancelled load is not an error worth reporting
+      if (error.name !== 'AbortError') setLoadError(error.message || 'Failed to load the model.');
+      return null;
+    } finally {
+      cancelLoadRef.current = null;
+      setLoadProgress(null);
+      setIsLoading(false);
+    }
+    const { geometry, metrics, diagnostics: meshDiagnostics } = loaded;
+
+    // Footprint width after the default rotation, used to place it beside the others
+    geometry.computeBoundingBox();
+    const width = geometry.boundingBox ? geometry.boundingBox.max.x - geometry.boundingBox.min.x : 0;
+
+    const id = createObjectId();
+    setObjects(prev => {
+      let x = 0;
+      if (prev.length > 0) {
+        const right = Math.max(...prev.map(o => o.position[0] + objectWidth(o) / 2));
+        x = right + PLACEMENT_GAP + (width / 2);
+      }
+      return [...prev, {
+        id,
+        name: file.name,
+        geometry,
+        metrics,
+        sourceUnit: 'mm',
+        rotation: createDefaultRotation(),
+        scale: 1,
+        position: [x, 0],
+        visible: true,
+        file,
+      }];
+    });
+    setDiagnostics(prev => ({ ...prev, [id]: meshDiagnostics }));
+    setSessionId(prev => prev ?? createObjectId());
+    handleSelectObject(id);
     setViewerMode(ViewerMode.VIEW);
-    setScale(1); // Reset scale to 100%
-    
-    // Reset rotation to default Z-up fix on new file load
-    const q = new THREE.Quaternion();
-    q.setFromEuler(new THREE.Euler(-Math.PI / 2, 0, 0));
-    setMeshRotation(q);
-  }, [fileUrl]);
+    return id;
+  }, [objectWidth, handleSelectObject]);
+
+  const handleCancelLoad = useCallback(() => {
+    cancelLoadRef.current?.();
+  }, []);
+
+  const handleDuplicateObject = useCallback((id: string) => {
+    const source = objects.find(o => o.id === id);
+    if (!source) return;
+    const copyId = createObjectId();
+    const offset = objectWidth(source) + PLACEMENT_GAP;
+    setObjects(prev => [...prev, {
+      ...source,
+      id: copyId,
+      name: `${stripExtension(source.name)} (copy)`,
+      geometry: source.geometry.clone(),
+      rotation: source.rotation.clone(),
+      position: [source.position[0] + offset, source.position[1]],
+    }]);
+    // Same triangles, so the diagnostics carry over
+    setDiagnostics(prev => (prev[id] ? { ...prev, [copyId]: prev[id] } : prev));
+    handleSelectObject(copyId);
+  }, [objects, objectWidth, handleSelectObject]);
+
+  const handleDeleteObject = useCallback((id: string) => {
+    const target = objects.find(o => o.id === id);
+    if (!target) return;
+    target.geometry.dispose();
+
+    const remaining = objects.filter(o => o.id !== id);
+    setObjects(remaining);
+    setDimensions(({ [id]: _removed, ...rest }) => rest);
+    setDiagnostics(({ [id]: _removed, ...rest }) => rest);
+    setOverhangAreas(({ [id]: _removed, ...rest }) => rest);
+    setSections(({ [id]: _removed, ...rest }) => rest);
+    setMeasurements(prev => prev.filter(m => m.objectId !== id));
+    setMessages(({ [id]: _removed, ...rest }) => rest);
+    if (analyzingId === id) analysisAbortRef.current?.abort();
+    resetChat(id);
+    setWallThickness(({ [id]: _removed, ...rest }) => rest);
+    hollowShells[id]?.shell.dispose();
+    setHollowShells(({ [id]: _removed, ...rest }) => rest);
+    setDrainHoles(({ [id]: _removed, ...rest }) => rest);
+    // Its undo steps go too, with the geometries only they referenced
+    for (const entry of [...history.undo, ...history.redo]) {
+      if (entry.objectId === id && entry.bake) {
+        entry.before.geometry.dispose();
+        entry.after.geometry.dispose();
+      }
+    }
+    setHistory(prev => ({
+      undo: prev.undo.filter(entry => entry.objectId !== id),
+      redo: prev.redo.filter(entry => entry.objectId !== id),
+    }));
+    if (repairResult?.objectId === id) {
+      repairResult.geometry.dispose();
+      setRepairResult(null);
+    }
+    if (selectedId === id) {
+      handleSelectObject(remaining.length > 0 ? remaining[remaining.length - 1].id : null);
+    }
+    // The saved session keeps its last state; the next model starts a new one
+    if (remaining.length === 0) setSessionId(null);
+  }, [objects, history, repairResult, hollowShells, selectedId, analyzingId, handleSelectObject]);
 
-  const handleDimensionsCalculated = useCallback((dims: ModelDimensions) => {
-    setDimensions(dims);
+  const handleToggleVisible = useCallback((id: string) => {
+    setObjects(prev => prev.map(o => (o.id === id ? { ...o, visible: !o.visible } : o)));
   }, []);
 
+  const handleDimensionsCalculated = useCallback((id: string, dims: ModelDimensions) => {
+    setDimensions(prev => ({ ...prev, [id]: dims }));
+  }, []);
+
+  const handleOverhangCalculated = useCallback((id: string, area: number) => {
+    setOverhangAreas(prev => ({ ...prev, [id]: area }));
+  }, []);
+
+  const handleSectionCalculated = useCallback((id: string, section: CrossSection) => {
+    setSections(prev => ({ ...prev, [id]: section }));
+  }, []);
+
+  const handleSectionAxis = useCallback((axis: 'x' | 'y' | 'z') => {
+    const normal: [number, number, number] = [axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0];
+    // Start in the middle of the scene along the new axis
+    const index = ['x', 'y', 'z'].indexOf(axis);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const object of objects) {
+      const dims = dimensions[object.id];
+      if (!object.visible || !dims) continue;
+      const center = [object.position[0], dims.height / 2, object.position[1]][index];
+      const half = [dims.width, dims.height, dims.depth][index] / 2;
+      min = Math.min(min, center - half);
+      max = Math.max(max, center + half);
+    }
+    setSectionPlane({ normal, offset: min === Infinity ? 0 : (min + max) / 2 });
+  }, [objects, dimensions]);
+
+  const handleSectionOffset = useCallback((offset: number) => {
+    setSectionPlane(prev => ({ ...prev, offset }));
+  }, []);
+
+  const handleExportSection = useCallback((format: 'svg' | 'dxf') => {
+    const section = selectedId ? sections[selectedId] : null;
+    if (!selectedObject || !section) return;
+    const baseName = `${stripExtension(selectedObject.name)}_section`;
+    if (format === 'svg') {
+      downloadBlob(new Blob([sectionToSVG(section)], { type: 'image/svg+xml' }), `${baseName}.svg`);
+    } else {
+      downloadBlob(new Blob([sectionToDXF(section)], { type: 'application/dxf' }), `${baseName}.dxf`);
+    }
+  }, [selectedObject, selectedId, sections]);
+
+  const handleAddMeasurement = useCallback((measurement: Pick<Measurement, 'objectId' | 'kind' | 'points' | 'normal'>) => {
+    setMeasurements(prev => {
+      const number = prev.filter(m => m.kind === measurement.kind).length + 1;
+      return [...prev, {
+        ...measurement,
+        id: createObjectId(),
+        name: `${measurementKind(measurement.kind).label} ${number}`,
+        visible: true,
+      }];
+    });
+  }, []);
+
+  const handleRenameMeasurement = useCallback((id: string, name: string) => {
+    setMeasurements(prev => prev.map(m => (m.id === id ? { ...m, name } : m)));
+  }, []);
+
+  const handleToggleMeasurement = useCallback((id: string) => {
+    setMeasurements(prev => prev.map(m => (m.id === id ? { ...m, visible: !m.visible } : m)));
+  }, []);
+
+  const handleDeleteMeasurement = useCallback((id: string) => {
+    setMeasurements(prev => prev.filter(m => m.id !== id));
+  }, []);
+
+  const stopThicknessJob = useCallback(() => {
+    cancelThicknessRef.current?.();
+    cancelThicknessRef.current = null;
+    setThicknessJob(null);
+  }, []);
+
+  // The error also keeps the analysis from restarting until the user retries
+  const handleCancelThickness = useCallback(() => {
+    stopThicknessJob();
+    setThicknessError('Analysis cancelled.');
+  }, [stopThicknessJob]);
+
+  // Wall thickness runs in a worker for the selected object whenever the mode needs it
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.THICKNESS || !selectedObject || currentThickness[selectedObject.id]) return;
+    if (thicknessJob?.objectId === selectedObject.id || thicknessError) return;
+
+    cancelThicknessRef.current?.();
+    const { id, geometry } = selectedObject;
+    const job = analyzeWallThickness(geometry, progress => setThicknessJob({ objectId: id, progress }));
+    cancelThicknessRef.current = job.cancel;
+    setThicknessJob({ objectId: id, progress: 0 });
+
+    job.promise
+      .then(({ thickness, faces }) => {
+        setWallThickness(prev => ({ ...prev, [id]: { geometry, thickness, faces } }));
+      })
+      .catch((error: Error) => {
+        if (error.name !== 'AbortError') setThicknessError(error.message);
+      })
+      .finally(() => {
+        // A cancelled job was already cleared, possibly for a new one on the same object
+        if (cancelThicknessRef.current !== job.cancel) return;
+        cancelThicknessRef.current = null;
+        setThicknessJob(null);
+      });
+  }, [viewerMode, selectedObject, currentThickness, thicknessJob, thicknessError]);
+
+  // Leaving the mode stops a running analysis and clears a previous failure
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.THICKNESS) {
+      stopThicknessJob();
+      setThicknessError(null);
+    }
+  }, [viewerMode, stopThicknessJob]);
+
+  const stopHollowJob = useCallback(() => {
+    cancelHollowRef.current?.();
+    cancelHollowRef.current = null;
+    setHollowJob(null);
+  }, []);
+
+  const handleCancelHollow = useCallback(() => {
+    if (hollowJob) setHollowError({ geometry: hollowJob.geometry, message: 'Hollowing cancelled.' });
+    stopHollowJob();
+  }, [hollowJob, stopHollowJob]);
+
+  const handleHollowSettingsChange = useCallback((settings: HollowSettings) => {
+    setHollowSettings(settings);
+    setHollowError(null);
+    setHollowExportError(null);
+  }, []);
+
+  // The inner shell is rebuilt in a worker whenever the mode needs it for other input
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.HOLLOW || !selectedObject || !hollowSource || currentShell || currentHollowError) return;
+    const { id } = selectedObject;
+    const { geometry } = hollowSource;
+    const thickness = hollowThickness;
+    if (hollowJob?.objectId === id && hollowJob.geometry === geometry && hollowJob.thickness === thickness) return;
+    if (hollowSource.isWatertight === false) {
+      const message = geometry === selectedObject.geometry
+        ? 'Hollowing needs a watertight model. Repair the mesh first.'
+        : 'The repaired mesh is still not watertight, so it cannot be hollowed.';
+      setHollowError({ geometry, message });
+      return;
+    }
+
+    cancelHollowRef.current?.();
+    const job = analyzeHollow(geometry, thickness, progress => setHollowJob({ objectId: id, geometry, thickness, progress }));
+    cancelHollowRef.current = job.cancel;
+    setHollowJob({ objectId: id, geometry, thickness, progress: 0 });
+
+    job.promise
+      .then(shell => {
+        const volume = computeMeshMetrics(shell).signedVolume;
+        setHollowShells(prev => {
+          prev[id]?.shell.dispose();
+          return { ...prev, [id]: { geometry, thickness, shell, volume } };
+        });
+      })
+      .catch((error: Error) => {
+        if (error.name !== 'AbortError') setHollowError({ geometry, message: error.message });
+      })
+      .finally(() => {
+        // A cancelled job was already cleared, possibly for a new one on the same geometry
+        if (cancelHollowRef.current !== job.cancel) return;
+        cancelHollowRef.current = null;
+        setHollowJob(null);
+      });
+  }, [viewerMode, selectedObject, hollowSource, currentShell, hollowThickness, hollowJob, currentHollowError]);
+
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.HOLLOW) {
+      stopHollowJob();
+      setHollowError(null);
+      setHollowExportError(null);
+    }
+  }, [viewerMode, stopHollowJob]);
+
+  // Holes belong to the geometry they were picked on; a changed geometry starts a new set
+  const handleAddDrainHole = useCallback((id: string, hole: DrainHole) => {
+    const object = objects.find(o => o.id === id);
+    if (!object) return;
+    setDrainHoles(prev => {
+      const holes = prev[id]?.geometry === object.geometry ? prev[id].holes : [];
+      return { ...prev, [id]: { geometry: object.geometry, holes: [...holes, hole] } };
+    });
+    setHollowExportError(null);
+  }, [objects]);
+
+  const handleUndoDrainHole = useCallback(() => {
+    if (!selectedObject) return;
+    setDrainHoles(prev => ({ ...prev, [selectedObject.id]: { geometry: selectedObject.geometry, holes: currentHoles.slice(0, -1) } }));
+    setHollowExportError(null);
+  }, [selectedObject, currentHoles]);
+
+  const handleClearDrainHoles = useCallback(() => {
+    if (!selectedObject) return;
+    setDrainHoles(({ [selectedObject.id]: _removed, ...rest }) => rest);
+    setHollowExportError(null);
+  }, [selectedObject]);
+
+  const handleExportHollow = useCallback(() => {
+    if (!selectedObject || !currentShell) return;
+    const { rotation, scale } = selectedObject;
+    // The shell's own source, which is the repaired mesh when there is one
+    const { geometry } = currentShell;
+    let hollowed: THREE.BufferGeometry;
+    try {
+      hollowed = buildHollowGeometry(geometry, currentShell.shell, currentHoles, hollowSettings.drainDiameter / 2 / scale, currentShell.thickness);
+    } catch (error: any) {
+      setHollowExportError({ geometry, message: error.message || 'Failed to hollow the model.' });
+      return;
+    }
+    setHollowExportError(null);
+    const baked = bakeViewerTransform(hollowed, rotation, scale);
+    downloadBlob(geometryToSTL(baked, true), `${stripExtension(selectedObject.name)}_hollow.stl`);
+    hollowed.dispose();
+    baked.dispose();
+  }, [selectedObject, currentShell, currentHoles, hollowSettings]);
+
+  const compareReference = objects.find(o => o.id === compareReferenceId && o.id !== selectedId) ?? null;
+
+  const deviationInput = useMemo((): DeviationInput | null => {
+    if (!selectedObject || !compareReference) return null;
+    return {
+      objectId: selectedObject.id,
+      referenceId: compareReference.id,
+      alignment,
+      geometry: selectedObject.geometry,
+      referenceGeometry: compareReference.geometry,
+      rotation: selectedObject.rotation,
+      referenceRotation: compareReference.rotation,
+      scale: selectedObject.scale,
+      referenceScale: compareReference.scale,
+    };
+  }, [selectedObject, compareReference, alignment]);
+
+  const currentDeviation = deviation && deviationInput && sameDeviationInput(deviation.input, deviationInput) ? deviation : null;
+
+  const deviationSummary = useMemo(() => {
+    if (!currentDeviation || !selectedObject) return null;
+    return summarizeDeviation(selectedObject.geometry, currentDeviation.distances, deviationTolerance);
+  }, [currentDeviation, selectedObject, deviationTolerance]);
+
+  const stopDeviationJob = useCallback(() => {
+    cancelDeviationRef.current?.();
+    cancelDeviationRef.current = null;
+    setDeviationJob(null);
+  }, []);
+
+  const handleCancelDeviation = useCallback(() => {
+    stopDeviationJob();
+    setDeviationError('Comparison cancelled.');
+  }, [stopDeviationJob]);
+
+  // Compare against another loaded object; the first other one is picked by default
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.COMPARE || compareReference) return;
+    const other = objects.find(o => o.id !== selectedId);
+    if (other) setCompareReferenceId(other.id);
+  }, [viewerMode, compareReference, objects, selectedId]);
+
+  // Deviation runs in a worker whenever the compare mode shows a stale result
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.COMPARE || !deviationInput || currentDeviation) return;
+    if (deviationJob || deviationError) return;
+
+    const input = deviationInput;
+    const job = analyzeDeviation(
+      { geometry: input.geometry, rotation: input.rotation, scale: input.scale },
+      { geometry: input.referenceGeometry, rotation: input.referenceRotation, scale: input.referenceScale },
+      input.alignment,
+      progress => setDeviationJob({ input, progress })
+    );
+    cancelDeviationRef.current = job.cancel;
+    setDeviationJob({ input, progress: 0 });
+
+    job.promise
+      .then(({ distances, rms }) => setDeviation({ input, distances, rms }))
+      .catch((error: Error) => {
+        if (error.name !== 'AbortError') setDeviationError(error.message);
+      })
+      .finally(() => {
+        // A cancelled job was already cleared, possibly for a new one with the same input
+        if (cancelDeviationRef.current !== job.cancel) return;
+        cancelDeviationRef.current = null;
+        setDeviationJob(null);
+      });
+  }, [viewerMode, deviationInput, currentDeviation, deviationJob, deviationError]);
+
+  // Leaving the mode stops a running comparison and clears a previous failure
+  useEffect(() => {
+    if (viewerMode !== ViewerMode.COMPARE) {
+      stopDeviationJob();
+      setDeviationError(null);
+    }
+  }, [viewerMode, stopDeviationJob]);
+
+  // Loads a revision next to the selected object and compares against it
+  const handleLoadReference = useCallback(async (file: File) => {
+    const primaryId = selectedId;
+    const id = await handleFileUpload(file);
+    if (!id) return;
+    setCompareReferenceId(id);
+    setDeviationError(null);
+    if (primaryId) handleSelectObject(primaryId);
+    setViewerMode(ViewerMode.COMPARE);
+  }, [selectedId, handleFileUpload, handleSelectObject]);
+
+  const handleRotationChange = useCallback((id: string, rotation: THREE.Quaternion) => {
+    transformObject(id, 'Rotate', { rotation });
+  }, [transformObject]);
+
+  const handleRepairMesh = useCallback(() => {
+    if (!selectedObject) return;
+    const result = repairMesh(selectedObject.geometry);
+    setRepairResult(prev => {
+      prev?.geometry.dispose();
+      return { objectId: selectedObject.id, source: selectedObject.geometry, ...result };
+    });
+  }, [selectedObject]);
+
+  const handleDownloadRepaired = useCallback(() => {
+    if (!repairResult) return;
+    const source = objects.find(o => o.id === repairResult.objectId);
+    const baseName = stripExtension(source?.name ?? 'model');
+    downloadBlob(geometryToSTL(repairResult.geometry, true), `${baseName}_repaired.stl`);
+  }, [repairResult, objects]);
+
+  const handleExportModel = useCallback((binary: boolean) => {
+    if (!selectedObject) return;
+    const baked = bakeViewerTransform(selectedObject.geometry, selectedObject.rotation, selectedObject.scale);
+    const header = printEstimate ? formatEstimateSummary(printEstimate, printSettings) : undefined;
+    downloadBlob(geometryToSTL(baked, binary, header), `${stripExtension(selectedObject.name)}_oriented.stl`);
+    baked.dispose();
+  }, [selectedObject, printEstimate, printSettings]);
+
+  // Splits the selected object along the section plane into new objects; the original is hidden
+  const handleCutModel = useCallback(() => {
+    if (!selectedObject) return;
+    const source = selectedObject;
+    let result: ReturnType<typeof cutGeometry>;
+    try {
+      result = cutGeometry(source.geometry, placementMatrix(source), sectionPlane, cutOptions);
+    } catch (error: any) {
+      setCutError(error.message || 'Failed to cut the model.');
+      return;
+    }
+
+    const down = new THREE.Vector3(0, -1, 0);
+    const baseName = stripExtension(source.name);
+    let right = Math.max(...objects.map(o => o.position[0] + objectWidth(o) / 2));
+    const parts: SceneObject[] = [];
+    const partDiagnostics: Record<string, MeshDiagnostics> = {};
+    result.parts.forEach((geometry, i) => {
+      const { metrics, diagnostics: meshDiagnostics } = prepareGeometry(geometry);
+      const rotation = cutOptions.layFlat
+        ? new THREE.Quaternion().setFromUnitVectors(result.cutNormals[i], down).multiply(source.rotation)
+        : source.rotation.clone();
+      const width = computeTransformedBounds(geometry, rotation, source.scale).getSize(new THREE.Vector3()).x;
+      const id = createObjectId();
+      parts.push({
+        id,
+        name: `${baseName} (part ${i + 1})`,
+        geometry,
+        metrics,
+        sourceUnit: source.sourceUnit,
+        rotation,
+        scale: source.scale,
+        position: [right + PLACEMENT_GAP + width / 2, source.position[1]],
+        visible: true,
+        file: new File([geometryToSTL(geometry, true)], `${baseName}_part${i + 1}.stl`, { type: 'model/stl' }),
+      });
+      partDiagnostics[id] = meshDiagnostics;
+      right += PLACEMENT_GAP + width;
+    });
+
+    setObjects(prev => [...prev.map(o => (o.id === source.id ? { ...o, visible: false } : o)), ...parts]);
+    setDiagnostics(prev => ({ ...prev, ...partDiagnostics }));
+    setCutResult({
+      partIds: parts.map(part => part.id),
+      openContours: result.openContours,
+      pins: { ...result.pins, diameter: cutOptions.pinDiameter },
+    });
+    setCutError(null);
+    handleSelectObject(parts[0].id);
+    setViewerMode(ViewerMode.VIEW);
+  }, [selectedObject, objects, objectWidth, sectionPlane, cutOptions, handleSelectObject]);
+
+  const handleDownloadPart = useCallback((id: string) => {
+    const part = objects.find(o => o.id === id);
+    if (!part) return;
+    const baked = bakeViewerTransform(part.geometry, part.rotation, part.scale);
+    downloadBlob(geometryToSTL(baked, true), `${stripExtension(part.name)}.stl`);
+    baked.dispose();
+  }, [objects]);
+
   const handleCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
     canvasRef.current = canvas;
   }, []);
 
+  const handleViewRendererReady = useCallback((render: () => ModelView[]) => {
+    renderViewsRef.current = render;
+  }, []);
+
+  // Standard views plus the measured values of every visible object for the AI tab
+  const getAnalysisContext = useCallback((): { views: ModelView[], facts: GeometryFacts[] } | null => {
+    const views = renderViewsRef.current?.() ?? [];
+    if (views.length === 0) return null;
+    const facts = objects
+      .filter(o => o.visible && dimensions[o.id])
+      .map((object): GeometryFacts => {
+        const dims = dimensions[object.id];
+        const meshDiagnostics = diagnostics[object.id];
+        const { overhangArea } = classifyFaces(object.geometry, object.rotation, object.scale, overhangAngle);
+        return {
+          name: object.name,
+          selected: object.id === selectedId,
+          width: dims.width,
+          height: dims.height,
+          depth: dims.depth,
+          meshVolume: dims.meshVolume,
+          boundingBoxVolume: dims.volume,
+          surfaceArea: dims.surfaceArea,
+          triangleCount: meshDiagnostics?.triangleCount ?? (object.geometry.getIndex() ?? object.geometry.getAttribute('position')).count / 3,
+          shellCount: meshDiagnostics?.shellCount ?? null,
+          isWatertight: meshDiagnostics?.isWatertight ?? null,
+          overhangArea,
+          overhangAngle,
+          scale: object.scale,
+        };
+      });
+    return { views, facts };
+  }, [objects, dimensions, diagnostics, selectedId, overhangAngle]);
+
   const getCanvasScreenshot = useCallback((): string | null => {
     if (canvasRef.current) {
       return canvasRef.current.toDataURL('image/png');
@@ -50,14 +879,364 @@ const App: React.FC = () => {
     return null;
   }, []);
 
-  const handleRotate90 = useCallback(() => {
-    setMeshRotation(prev => {
-      const rotator = new THREE.Quaternion();
-      rotator.setFromAxisAngle(new THREE.Vector3(1, 0, 0), -Math.PI / 2);
-      return rotator.multiply(prev);
+  const updateChat = useCallback((objectId: string, update: (list: AnalysisMessage[]) => AnalysisMessage[]) => {
+    setMessages(prev => ({ ...prev, [objectId]: update(prev[objectId] ?? []) }));
+  }, []);
+
+  // Streams the reply to `prompt` into a placeholder message at the end of the chat
+  const runAnalysis = useCallback(async (objectId: string, prompt: string, history: AnalysisMessage[]) => {
+    const context = getAnalysisContext();
+    if (!context) {
+      updateChat(objectId, list => [...list, { role: 'ai', content: 'Please load a 3D model first to analyze it.', isError: true }]);
+      return;
+    }
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setAnalyzingId(objectId);
+    const replaceReply = (reply: AnalysisMessage) => updateChat(objectId, list => [...list.slice(0, -1), reply]);
+    updateChat(objectId, list => [...list, { role: 'ai', content: '', streaming: true }]);
+
+    try {
+      const reply = await streamAnalysis(
+        objectId,
+        context.views,
+        context.facts,
+        prompt,
+        history,
+        text => replaceReply({ role: 'ai', content: text, streaming: true }),
+        controller.signal
+      );
+      replaceReply({ role: 'ai', content: reply });
+    } catch (error: any) {
+      const cancelled = error.name === 'AbortError';
+      replaceReply({ role: 'ai', content: cancelled ? 'Cancelled.' : error.message || 'Failed to analyze the model.', isError: true });
+    } finally {
+      analysisAbortRef.current = null;
+      setAnalyzingId(null);
+    }
+  }, [getAnalysisContext, updateChat]);
+
+  const handleSendMessage = useCallback((prompt: string) => {
+    if (!selectedId || analyzingId) return;
+    const history = messages[selectedId] ?? [];
+    const question = prompt.trim() || DEFAULT_ANALYSIS_PROMPT;
+    updateChat(selectedId, list => [...list, { role: 'user', content: question }]);
+    runAnalysis(selectedId, question, history);
+  }, [selectedId, analyzingId, messages, updateChat, runAnalysis]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+  }, []);
+
+  // Asks the last question again in place of the failed reply
+  const handleRetryAnalysis = useCallback(() => {
+    const list = selectedId ? messages[selectedId] ?? [] : [];
+    const questionIndex = list.map(m => m.role).lastIndexOf('user');
+    if (!selectedId || analyzingId || questionIndex < 0 || !list[list.length - 1]?.isError) return;
+    updateChat(selectedId, current => current.slice(0, questionIndex + 1));
+    runAnalysis(selectedId, list[questionIndex].content, list.slice(0, questionIndex));
+  }, [selectedId, analyzingId, messages, updateChat, runAnalysis]);
+
+  const handleImageRendererReady = useCallback((render: (options: ImageExportOptions) => HTMLCanvasElement) => {
+    renderImageRef.current = render;
+  }, []);
+
+  // Renders the current view at the chosen resolution rather than the on-screen canvas size
+  const handleExportImage = useCallback(() => {
+    if (!renderImageRef.current) return;
+    let image: HTMLCanvasElement;
+    try {
+      image = renderImageRef.current(imageExportOptions);
+    } catch (error: any) {
+      setImageExportError(error.message || 'Failed to render the image.');
+      return;
+    }
+    setImageExportError(null);
+    const baseName = selectedObject ? stripExtension(selectedObject.name) : 'scene';
+    image.toBlob(blob => {
+      if (blob) downloadBlob(blob, `${baseName}_${imageExportOptions.width}x${imageExportOptions.height}.png`);
+      else setImageExportError('Failed to encode the image.');
+    }, 'image/png');
+  }, [imageExportOptions, selectedObject]);
+
+  const handleCaptureSnapshot = useCallback(() => {
+    const screenshot = getCanvasScreenshot();
+    if (screenshot) setReportSnapshots(prev => [...prev, screenshot]);
+  }, [getCanvasScreenshot]);
+
+  const handleExportReport = useCallback((format: ReportFormat) => {
+    const dims = selectedId ? dimensions[selectedId] : null;
+    if (!selectedObject || !dims) return;
+
+    // Fall back to the current view when nothing was captured
+    const screenshot = reportSnapshots.length === 0 ? getCanvasScreenshot() : null;
+    const report = buildReport({
+      object: selectedObject,
+      dimensions: dims,
+      measurements,
+      diagnostics: selectedDiagnostics,
+      printSettings,
+      printEstimate,
+      analysis: messages[selectedObject.id] ?? [],
+      snapshots: screenshot ? [screenshot] : reportSnapshots,
+      displayUnit,
+    });
+
+    const baseName = `${stripExtension(selectedObject.name)}_report`;
+    if (format === 'json') {
+      downloadBlob(new Blob([reportToJSON(report)], { type: 'application/json' }), `${baseName}.json`);
+    } else if (format === 'html') {
+      downloadBlob(new Blob([reportToHTML(report)], { type: 'text/html' }), `${baseName}.html`);
+    } else {
+      printHTML(reportToHTML(report));
+    }
+  }, [selectedObject, selectedId, dimensions, reportSnapshots, getCanvasScreenshot, measurements, selectedDiagnostics, printSettings, printEstimate, messages, displayUnit]);
+
+  // Serializable snapshot of the workspace, null until a model was loaded
+  const currentSession = useCallback((): { session: Session, files: Record<string, File> } | null => {
+    if (!sessionId || objects.length === 0) return null;
+    const files: Record<string, File> = {};
+    const sessionObjects = objects.map(object => {
+      const fileId = fileIdFor(object.file);
+      files[fileId] = object.file;
+      return {
+        id: object.id,
+        name: object.name,
+        fileId,
+        sourceUnit: object.sourceUnit,
+        rotation: object.rotation.toArray() as [number, number, number, number],
+        scale: object.scale,
+        position: object.position,
+        visible: object.visible,
+      };
     });
+    return {
+      session: {
+        id: sessionId,
+        name: objects.length > 1 ? `${objects[0].name} +${objects.length - 1}` : objects[0].name,
+        savedAt: Date.now(),
+        objects: sessionObjects,
+        selectedId,
+        measurements,
+        // Replies still streaming are left out, they would never finish after a restore
+        messages: Object.fromEntries(
+          Object.entries(messages).map(([id, list]) => [id, list.filter(m => !m.streaming)])
+        ),
+        camera: cameraPoseRef.current,
+        displayUnit,
+        printSettings,
+      },
+      files,
+    };
+  }, [sessionId, objects, selectedId, measurements, messages, displayUnit, printSettings]);
+
+  useEffect(() => {
+    const current = currentSession();
+    if (!current) return;
+    const timeout = setTimeout(() => {
+      saveSession(current.session, current.files).catch(error => console.error('Failed to save session:', error));
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [currentSession, cameraVersion]);
+
+  // Recent sessions are offered while the workspace is empty
+  useEffect(() => {
+    if (objects.length > 0) return;
+    listSessions()
+      .then(setRecentSessions)
+      .catch(error => console.error('Failed to list sessions:', error));
+  }, [objects.length]);
+
+  const handleCameraChange = useCallback((pose: CameraPose) => {
+    cameraPoseRef.current = pose;
+    setCameraVersion(v => v + 1);
+  }, []);
+
+  // Replaces the workspace with a saved session, re-parsing its model files
+  const restoreSession = useCallback(async ({ session, files }: { session: Session, files: Record<string, File> }) => {
+    setIsLoading(true);
+    setLoadError(null);
+    const restored: SceneObject[] = [];
+    const restoredDiagnostics: Record<string, MeshDiagnostics> = {};
+    // Duplicated objects share a file, which is parsed once
+    const parsed = new Map<string, Awaited<ReturnType<typeof loadModel>['promise']>>();
+    try {
+      for (const stored of session.objects) {
+        const file = files[stored.fileId];
+        if (!file) continue;
+        let loaded = parsed.get(stored.fileId);
+        if (!loaded) {
+          const job = loadModel(file, setLoadProgress);
+          cancelLoadRef.current = job.cancel;
+          loaded = await job.promise;
+          parsed.set(stored.fileId, loaded);
+        }
+        restored.push({
+          id: stored.id,
+          name: stored.name,
+          geometry: restored.some(o => o.file === file) ? loaded.geometry.clone() : loaded.geometry,
+          metrics: loaded.metrics,
+          sourceUnit: stored.sourceUnit,
+          rotation: new THREE.Quaternion().fromArray(stored.rotation),
+          scale: stored.scale,
+          position: stored.position,
+          visible: stored.visible,
+          file,
+        });
+        restoredDiagnostics[stored.id] = loaded.diagnostics;
+      }
+    } catch (error: any) {
+      restored.forEach(o => o.geometry.dispose());
+      if (error.name !== 'AbortError') setLoadError(error.message || 'Failed to restore the session.');
+      return;
+    } finally {
+      cancelLoadRef.current = null;
+      setLoadProgress(null);
+      setIsLoading(false);
+    }
+    if (restored.length === 0) {
+      setLoadError('The model files of this session are missing.');
+      return;
+    }
+
+    stopThicknessJob();
+    stopHollowJob();
+    analysisAbortRef.current?.abort();
+    [...objects, ...restored].forEach(o => resetChat(o.id));
+    objects.forEach(o => o.geometry.dispose());
+    [...history.undo, ...history.redo].forEach(entry => {
+      if (!entry.bake) return;
+      entry.before.geometry.dispose();
+      entry.after.geometry.dispose();
+    });
+    setHistory({ undo: [], redo: [] });
+    repairResult?.geometry.dispose();
+    const ids = new Set(restored.map(o => o.id));
+    setObjects(restored);
+    setDimensions({});
+    setDiagnostics(restoredDiagnostics);
+    setOverhangAreas({});
+    setSections({});
+    setWallThickness({});
+    setThicknessError(null);
+    Object.values(hollowShells).forEach(entry => entry.shell.dispose());
+    setHollowShells({});
+    setHollowError(null);
+    setHollowExportError(null);
+    setDrainHoles({});
+    setRepairResult(null);
+    setOrientationOptions(null);
+    setCutResult(null);
+    setCutError(null);
+    setReportSnapshots([]);
+    setMeasurements(session.measurements.filter(m => ids.has(m.objectId)));
+    setMessages(session.messages);
+    setDisplayUnit(session.displayUnit);
+    setPrintSettings(session.printSettings);
+    handleSelectObject(session.selectedId && ids.has(session.selectedId) ? session.selectedId : restored[0].id);
+    cameraPoseRef.current = session.camera;
+    setRestoredCamera(session.camera);
+    setSessionId(session.id);
+    setViewerMode(ViewerMode.VIEW);
+  }, [objects, history, repairResult, hollowShells, stopThicknessJob, stopHollowJob, handleSelectObject]);
+
+  const handleOpenSession = useCallback(async (id: string) => {
+    try {
+      await restoreSession(await loadSession(id));
+    } catch (error: any) {
+      setLoadError(error.message || 'Failed to open the session.');
+    }
+  }, [restoreSession]);
+
+  const handleImportSession = useCallback(async (file: File) => {
+    try {
+      await restoreSession(await readSessionBundle(file));
+    } catch (error: any) {
+      setLoadError(error.message || 'Failed to import the session.');
+    }
+  }, [restoreSession]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      setRecentSessions(await listSessions());
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+    }
   }, []);
 
+  const handleExportSession = useCallback(() => {
+    const current = currentSession();
+    if (!current) return;
+    const baseName = stripExtension(current.session.objects[0].name);
+    downloadBlob(createSessionBundle(current.session, current.files), `${baseName}${SESSION_BUNDLE_EXTENSION}`);
+  }, [currentSession]);
+
+  const handleRotate90 = useCallback(() => {
+    if (!selectedObject) return;
+    transformObject(selectedObject.id, 'Rotate', { rotation: rotateAboutAxis(selectedObject.rotation, 'x', -90) });
+  }, [selectedObject, transformObject]);
+
+  const handleRotateAxis = useCallback((axis: 'x' | 'y' | 'z', degrees: number) => {
+    if (!selectedObject) return;
+    transformObject(selectedObject.id, 'Rotate', { rotation: rotateAboutAxis(selectedObject.rotation, axis, degrees) });
+  }, [selectedObject, transformObject]);
+
+  // Mirroring and per-axis scale follow the viewer axes and are baked into the geometry
+  const handleAxisScale = useCallback((factors: [number, number, number], label = 'Axis Scale') => {
+    if (!selectedObject) return;
+    const { state, bake } = bakeGeometry(selectedObject, axisScaleMatrix(selectedObject.rotation, factors));
+    transformObject(selectedObject.id, label, state, { bake });
+  }, [selectedObject, transformObject]);
+
+  const handleMirror = useCallback((axis: 'x' | 'y' | 'z') => {
+    const factors: [number, number, number] = [axis === 'x' ? -1 : 1, axis === 'y' ? -1 : 1, axis === 'z' ? -1 : 1];
+    handleAxisScale(factors, `Mirror ${axis.toUpperCase()}`);
+  }, [handleAxisScale]);
+
+  const handleScaleToDimension = useCallback((axis: 'x' | 'y' | 'z', size: number) => {
+    const dims = selectedObject ? dimensions[selectedObject.id] : null;
+    if (!selectedObject || !dims) return;
+    const current = axis === 'x' ? dims.width : axis === 'y' ? dims.height : dims.depth;
+    transformObject(selectedObject.id, 'Scale', { scale: scaleForDimension(current, size, selectedObject.scale) });
+  }, [selectedObject, dimensions, transformObject]);
+
+  const handleScaleChange = useCallback((scale: number) => {
+    if (!selectedId) return;
+    transformObject(selectedId, 'Scale', { scale }, { merge: true });
+  }, [selectedId, transformObject]);
+
+  const handlePositionChange = useCallback((position: [number, number]) => {
+    if (!selectedId) return;
+    updateObject(selectedId, { position });
+  }, [selectedId, updateObject]);
+
+  const handleSourceUnitChange = useCallback((sourceUnit: LengthUnit) => {
+    if (!selectedObject) return;
+    transformObject(selectedObject.id, 'Units', {
+      sourceUnit,
+      scale: rescaleForSourceUnit(selectedObject.scale, selectedObject.sourceUnit, sourceUnit),
+    });
+  }, [selectedObject, transformObject]);
+
+  const handleAutoOrient = useCallback(() => {
+    if (!selectedObject) return;
+    const candidates = suggestOrientations(selectedObject.geometry, selectedObject.scale, overhangAngle);
+    setOrientationOptions({ objectId: selectedObject.id, candidates });
+  }, [selectedObject, overhangAngle]);
+
+  const handleApplyOrientation = useCallback((candidate: OrientationCandidate) => {
+    if (!orientationOptions) return;
+    transformObject(orientationOptions.objectId, 'Orientation', { rotation: candidate.rotation.clone() });
+  }, [orientationOptions, transformObject]);
+
+  const handleScaleToFit = useCallback(() => {
+    if (!printer || !selectedObject || !dimensions[selectedObject.id]) return;
+    const scale = computeScaleToFit(dimensions[selectedObject.id], selectedObject.scale, printer);
+    transformObject(selectedObject.id, 'Scale to Fit', { scale, position: [0, 0] });
+  }, [printer, selectedObject, dimensions, transformObject]);
+
   return (
     <div className="flex w-full h-screen bg-slate-950 overflow-hidden">
       {/* Main Viewer Area */}
@@ -68,7 +1247,7 @@ const App: React.FC = () => {
           </h2>
           {viewerMode === ViewerMode.MEASURE && (
             <div className="bg-indigo-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
-              Ruler Active: Click 2 points on model
+              Ruler Active: {measurementKind(measureKind).hint}
             </div>
           )}
           {viewerMode === ViewerMode.ALIGN && (
@@ -76,19 +1255,87 @@ const App: React.FC = () => {
               Align Tool: Click a face to place it on the floor
             </div>
           )}
+          {viewerMode === ViewerMode.OVERHANG && (
+            <div className="bg-amber-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Overhangs beyond {overhangAngle}°: click a face to drop it
+            </div>
+          )}
+          {viewerMode === ViewerMode.SECTION && (
+            <div className="bg-amber-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Section View: Click a face to cut parallel to it
+            </div>
+          )}
+          {viewerMode === ViewerMode.THICKNESS && (
+            <div className="bg-red-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Wall Thickness: red walls are thinner than {formatLength(minThickness, displayUnit)}
+            </div>
+          )}
+          {viewerMode === ViewerMode.HOLLOW && (
+            <div className="bg-cyan-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Hollowing: {formatLength(hollowSettings.wallThickness, displayUnit)} walls, click the surface to place a drain hole
+            </div>
+          )}
+          {viewerMode === ViewerMode.ROTATE && (
+            <div className="bg-emerald-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Rotate Tool: drag the rings to turn the selected model
+            </div>
+          )}
+          {viewerMode === ViewerMode.COMPARE && (
+            <div className="bg-emerald-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              {compareReference ? `Comparing against ${compareReference.name}` : 'Load a second revision to compare'}
+            </div>
+          )}
+          {outOfBoundsIds.length > 0 && (
+            <div className="bg-red-600/90 text-white text-xs px-3 py-1 rounded-full shadow-lg backdrop-blur-md animate-in fade-in slide-in-from-left-4 duration-300">
+              Outside {printer?.name} build volume
+            </div>
+          )}
         </div>
-        
-        <Viewer3D 
-          fileUrl={fileUrl} 
+
+        <Viewer3D
+          objects={objects}
+          selectedId={selectedId}
+          onSelectObject={handleSelectObject}
           onDimensionsCalculated={handleDimensionsCalculated}
           onCanvasReady={handleCanvasReady}
+          onViewRendererReady={handleViewRendererReady}
+          onImageRendererReady={handleImageRendererReady}
           viewerMode={viewerMode}
-          meshRotation={meshRotation}
-          onRotationChange={setMeshRotation}
-          scale={scale}
+          onRotationChange={handleRotationChange}
+          highlightedIssue={selectedDiagnostics?.issues.find(issue => issue.category === highlightedIssue) ?? null}
+          printer={printer}
+          outOfBoundsIds={outOfBoundsIds}
+          overhangAngle={overhangAngle}
+          onOverhangCalculated={handleOverhangCalculated}
+          wallThickness={currentThickness}
+          minThickness={minThickness}
+          deviation={currentDeviation && deviationSummary ? {
+            objectId: currentDeviation.input.objectId,
+            distances: currentDeviation.distances,
+            tolerance: deviationTolerance,
+            range: Math.max(Math.abs(deviationSummary.min), Math.abs(deviationSummary.max)),
+          } : null}
+          hollow={selectedObject ? {
+            objectId: selectedObject.id,
+            shell: currentShell?.shell ?? null,
+            holes: currentHoles,
+            radius: hollowSettings.drainDiameter / 2 / selectedObject.scale,
+            thickness: hollowThickness,
+          } : null}
+          onAddDrainHole={handleAddDrainHole}
+          sectionPlane={sectionPlane}
+          onSectionPlaneChange={setSectionPlane}
+          onSectionCalculated={handleSectionCalculated}
+          measurements={measurements}
+          measureKind={measureKind}
+          snapMode={snapMode}
+          displayUnit={displayUnit}
+          onAddMeasurement={handleAddMeasurement}
+          cameraPose={restoredCamera}
+          onCameraChange={handleCameraChange}
         />
-        
-        {!fileUrl && (
+
+        {objects.length === 0 && (
            <div className="absolute inset-0 pointer-events-none flex items-center justify-center opacity-20">
              <div className="w-96 h-96 border border-indigo-500/30 rounded-full animate-pulse"></div>
            </div>
@@ -96,18 +1343,142 @@ const App: React.FC = () => {
       </div>
 
       {/* Sidebar Controls */}
-      <Sidebar 
-        onFileUpload={handleFileUpload} 
-        dimensions={dimensions}
-        getCanvasScreenshot={getCanvasScreenshot}
+      <Sidebar
+        onFileUpload={handleFileUpload}
+        isLoading={isLoading}
+        loadProgress={loadProgress}
+        onCancelLoad={handleCancelLoad}
+        loadError={loadError}
+        objects={objects}
+        selectedId={selectedId}
+        onSelectObject={handleSelectObject}
+        onToggleVisible={handleToggleVisible}
+        onDuplicateObject={handleDuplicateObject}
+        onDeleteObject={handleDeleteObject}
+        dimensions={selectedId ? dimensions[selectedId] ?? null : null}
+        messages={selectedId ? messages[selectedId] ?? [] : []}
+        isAnalyzing={analyzingId !== null}
+        onSendMessage={handleSendMessage}
+        onCancelAnalysis={handleCancelAnalysis}
+        onRetryAnalysis={handleRetryAnalysis}
         viewerMode={viewerMode}
         setViewerMode={setViewerMode}
         onRotateModel={handleRotate90}
-        scale={scale}
-        onScaleChange={setScale}
+        scale={selectedObject?.scale ?? 1}
+        onScaleChange={handleScaleChange}
+        onRotateAxis={handleRotateAxis}
+        onMirror={handleMirror}
+        onAxisScale={handleAxisScale}
+        onScaleToDimension={handleScaleToDimension}
+        undoLabel={history.undo[history.undo.length - 1]?.label ?? null}
+        redoLabel={history.redo[history.redo.length - 1]?.label ?? null}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        position={selectedObject?.position ?? [0, 0]}
+        onPositionChange={handlePositionChange}
+        displayUnit={displayUnit}
+        onDisplayUnitChange={setDisplayUnit}
+        sourceUnit={selectedObject?.sourceUnit ?? 'mm'}
+        onSourceUnitChange={handleSourceUnitChange}
+        unitHintDismissed={selectedId !== null && unitHintDismissed.includes(selectedId)}
+        onDismissUnitHint={() => selectedId && setUnitHintDismissed(prev => [...prev, selectedId])}
+        diagnostics={selectedDiagnostics}
+        highlightedIssue={highlightedIssue}
+        onHighlightIssue={setHighlightedIssue}
+        repairReport={repairResult?.objectId === selectedId ? repairResult.report : null}
+        onRepairMesh={handleRepairMesh}
+        onDownloadRepaired={handleDownloadRepaired}
+        onExportModel={handleExportModel}
+        printer={printer}
+        onPrinterChange={setPrinter}
+        outOfBoundsNames={objects.filter(o => outOfBoundsIds.includes(o.id)).map(o => o.name)}
+        onScaleToFit={handleScaleToFit}
+        overhangAngle={overhangAngle}
+        onOverhangAngleChange={setOverhangAngle}
+        overhangArea={selectedId ? overhangAreas[selectedId] ?? null : null}
+        orientationCandidates={orientationOptions?.objectId === selectedId ? orientationOptions.candidates : null}
+        onAutoOrient={handleAutoOrient}
+        onApplyOrientation={handleApplyOrientation}
+        sectionPlane={sectionPlane}
+        sectionRange={sectionRange}
+        onSectionAxis={handleSectionAxis}
+        onSectionOffset={handleSectionOffset}
+        section={selectedId ? sections[selectedId] ?? null : null}
+        onExportSection={handleExportSection}
+        cutOptions={cutOptions}
+        onCutOptionsChange={setCutOptions}
+        onCutModel={handleCutModel}
+        cutError={cutError}
+        cutParts={cutResult ? objects.filter(o => cutResult.partIds.includes(o.id)) : []}
+        cutOpenContours={cutResult?.openContours ?? 0}
+        cutPins={cutResult?.pins ?? null}
+        onDownloadPart={handleDownloadPart}
+        measurements={measurements}
+        measureKind={measureKind}
+        onMeasureKindChange={setMeasureKind}
+        snapMode={snapMode}
+        onSnapModeChange={setSnapMode}
+        minThickness={minThickness}
+        onMinThicknessChange={setMinThickness}
+        thicknessProgress={thicknessJob?.objectId === selectedId ? thicknessJob.progress : null}
+        onCancelThickness={handleCancelThickness}
+        onRetryThickness={() => setThicknessError(null)}
+        thicknessError={thicknessError}
+        thicknessSummary={thicknessSummary}
+        hollowSettings={hollowSettings}
+        onHollowSettingsChange={handleHollowSettingsChange}
+        hollowProgress={hollowJob?.objectId === selectedId ? hollowJob.progress : null}
+        onCancelHollow={handleCancelHollow}
+        onRetryHollow={() => setHollowError(null)}
+        hollowError={currentHollowError}
+        hollowCoarse={hollowCoarse}
+        hollowExportError={currentHollowExportError}
+        drainHoleCount={currentHoles.length}
+        onUndoDrainHole={handleUndoDrainHole}
+        onClearDrainHoles={handleClearDrainHoles}
+        hollowSummary={hollowSummary}
+        onExportHollow={handleExportHollow}
+        compareReferenceId={compareReference?.id ?? null}
+        onCompareReferenceChange={(id) => {
+          setCompareReferenceId(id);
+          setDeviationError(null);
+        }}
+        onLoadReference={handleLoadReference}
+        alignment={alignment}
+        onAlignmentChange={(method) => {
+          setAlignment(method);
+          setDeviationError(null);
+        }}
+        deviationTolerance={deviationTolerance}
+        onDeviationToleranceChange={setDeviationTolerance}
+        deviationProgress={deviationJob ? deviationJob.progress : null}
+        onCancelDeviation={handleCancelDeviation}
+        onRetryDeviation={() => setDeviationError(null)}
+        deviationError={deviationError}
+        deviationSummary={deviationSummary}
+        deviationFitError={alignment === 'icp' ? currentDeviation?.rms ?? null : null}
+        printSettings={printSettings}
+        onPrintSettingsChange={setPrintSettings}
+        printEstimate={printEstimate}
+        reportSnapshots={reportSnapshots}
+        onCaptureSnapshot={handleCaptureSnapshot}
+        onRemoveSnapshot={(index) => setReportSnapshots(prev => prev.filter((_, i) => i !== index))}
+        onExportReport={handleExportReport}
+        imageExportOptions={imageExportOptions}
+        onImageExportOptionsChange={setImageExportOptions}
+        onExportImage={handleExportImage}
+        imageExportError={imageExportError}
+        recentSessions={recentSessions}
+        onOpenSession={handleOpenSession}
+        onDeleteSession={handleDeleteSession}
+        onImportSession={handleImportSession}
+        onExportSession={handleExportSession}
+        onRenameMeasurement={handleRenameMeasurement}
+        onToggleMeasurement={handleToggleMeasurement}
+        onDeleteMeasurement={handleDeleteMeasurement}
       />
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
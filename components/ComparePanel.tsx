@@ -0,0 +1,185 @@
+import React from 'react';
+import { Loader2, X, RotateCcw, Upload } from 'lucide-react';
+import { SceneObject, AlignmentMethod, DeviationSummary, LengthUnit } from '../types';
+import { formatLength } from '../utils/units';
+import { SUPPORTED_EXTENSIONS } from '../utils/modelLoader';
+
+interface ComparePanelProps {
+  objects: SceneObject[];
+  primaryId: string | null;
+  referenceId: string | null;
+  onReferenceChange: (id: string) => void;
+  onLoadReference: (file: File) => void;
+  alignment: AlignmentMethod;
+  onAlignmentChange: (alignment: AlignmentMethod) => void;
+  tolerance: number;
+  onToleranceChange: (value: number) => void;
+  progress: number | null;
+  onCancel: () => void;
+  onRetry: () => void;
+  error: string | null;
+  summary: DeviationSummary | null;
+  fitError: number | null;
+  unit: LengthUnit;
+}
+
+const ALIGNMENTS: { id: AlignmentMethod, label: string }[] = [
+  { id: 'center', label: 'Box Center' },
+  { id: 'icp', label: 'Best Fit' },
+];
+
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  objects,
+  primaryId,
+  referenceId,
+  onReferenceChange,
+  onLoadReference,
+  alignment,
+  onAlignmentChange,
+  tolerance,
+  onToleranceChange,
+  progress,
+  onCancel,
+  onRetry,
+  error,
+  summary,
+  fitError,
+  unit
+}) => {
+  const candidates = objects.filter(o => o.id !== primaryId);
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">Compare against</span>
+        <div className="flex gap-2">
+          <select
+            value={referenceId ?? ''}
+            onChange={(e) => onReferenceChange(e.target.value)}
+            disabled={candidates.length === 0}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          >
+            {candidates.length === 0 && <option value="">No other model loaded</option>}
+            {candidates.map(o => (
+              <option key={o.id} value={o.id}>{o.name}</option>
+            ))}
+          </select>
+          <label className="p-1.5 rounded border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 cursor-pointer transition-colors" title="Load revision">
+            <Upload className="w-4 h-4" />
+            <input
+              type="file"
+              accept={SUPPORTED_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onLoadReference(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {ALIGNMENTS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onAlignmentChange(option.id)}
+            className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${
+              alignment === option.id
+                ? 'bg-indigo-600 border-indigo-500 text-white'
+                : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-slate-400">Tolerance ±</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={tolerance}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) onToleranceChange(value);
+            }}
+            className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <span className="text-xs text-slate-500">mm</span>
+        </div>
+      </div>
+
+      <div className="flex gap-3 text-[11px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" />Added</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500" />Within</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-blue-500" />Removed</span>
+      </div>
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span className="flex items-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Comparing... {Math.round(progress * 100)}%
+            </span>
+            <button onClick={onCancel} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Cancel">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-red-300">{error}</p>
+          <button onClick={onRetry} className="p-1 text-slate-400 hover:text-white transition-colors" title="Run again">
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Within tolerance</span>
+            <span className={`font-mono ${summary.withinTolerance >= 0.95 ? 'text-emerald-300' : 'text-amber-300'}`}>
+              {(summary.withinTolerance * 100).toFixed(1)}%
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Max deviation</span>
+            <span className="font-mono text-indigo-300">
+              {formatLength(Math.max(Math.abs(summary.min), Math.abs(summary.max)), unit, 3)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Mean deviation</span>
+            <span className="font-mono text-indigo-300">{formatLength(summary.meanAbs, unit, 3)}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-slate-500">Range</span>
+            <span className="font-mono text-slate-400">
+              {formatLength(summary.min, unit, 3)} … {summary.max >= 0 ? '+' : ''}{formatLength(summary.max, unit, 3)}
+            </span>
+          </div>
+          {fitError !== null && (
+            <div className="flex justify-between text-xs">
+              <span className="text-slate-500">Fit RMS</span>
+              <span className="font-mono text-slate-400">{formatLength(fitError, unit, 3)}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
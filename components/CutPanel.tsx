@@ -0,0 +1,129 @@
+import React from 'react';
+import { Scissors, Download, AlertTriangle } from 'lucide-react';
+import { CutOptions, SceneObject, LengthUnit } from '../types';
+import { formatLength } from '../utils/units';
+
+interface CutPanelProps {
+  showOptions: boolean;
+  options: CutOptions;
+  onOptionsChange: (options: CutOptions) => void;
+  onCut: () => void;
+  canCut: boolean;
+  error: string | null;
+  parts: SceneObject[];
+  openContours: number;
+  pins: { count: number, depth: number, diameter: number } | null;
+  onSelectPart: (id: string) => void;
+  onDownloadPart: (id: string) => void;
+  unit: LengthUnit;
+}
+
+const CutPanel: React.FC<CutPanelProps> = ({
+  showOptions,
+  options,
+  onOptionsChange,
+  onCut,
+  canCut,
+  error,
+  parts,
+  openContours,
+  pins,
+  onSelectPart,
+  onDownloadPart,
+  unit
+}) => {
+  const update = (changes: Partial<CutOptions>) => onOptionsChange({ ...options, ...changes });
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      {showOptions && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.layFlat}
+              onChange={(e) => update({ layFlat: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Lay parts flat on the cut face
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.pins}
+              onChange={(e) => update({ pins: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Alignment pin holes
+          </label>
+          {options.pins && (
+            <div className="grid grid-cols-2 gap-2">
+              {([['pinDiameter', 'Ø'], ['pinDepth', 'Depth']] as const).map(([key, label]) => (
+                <div key={key} className="flex items-center gap-1">
+                  <span className="text-xs text-slate-400">{label}</span>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={options[key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (value > 0) update({ [key]: value });
+                    }}
+                    className="w-full min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-amber-500"
+                  />
+                  <span className="text-xs text-slate-500">mm</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={onCut}
+            disabled={!canCut}
+            className="w-full py-2 rounded-lg flex items-center justify-center gap-2 text-xs font-medium border bg-amber-600 border-amber-500 text-white hover:bg-amber-500 transition-colors disabled:opacity-50"
+          >
+            <Scissors className="w-4 h-4" />
+            Split Along Plane
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {parts.length > 0 && (
+        <div className="space-y-1">
+          {parts.map(part => (
+            <div key={part.id} className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => onSelectPart(part.id)}
+                className="flex-1 min-w-0 text-left text-sm text-slate-200 truncate hover:text-white"
+              >
+                {part.name}
+              </button>
+              <button
+                onClick={() => onDownloadPart(part.id)}
+                className="p-1 text-slate-400 hover:text-white transition-colors"
+                title="Download STL"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {pins && pins.count > 0 && (
+            <p className="text-[11px] text-slate-500">
+              {pins.count} pin hole{pins.count === 1 ? '' : 's'} per part; pins are Ø {formatLength(pins.diameter, unit)} × {formatLength(pins.depth * 2, unit)}.
+            </p>
+          )}
+          {openContours > 0 && (
+            <p className="flex items-start gap-1 text-[11px] text-amber-300">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {openContours} open contour{openContours === 1 ? '' : 's'}: the model is not watertight, so the cut could not be fully capped.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CutPanel;
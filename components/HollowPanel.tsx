@@ -0,0 +1,150 @@
+import React from 'react';
+import { Loader2, X, RotateCcw, Download, Trash2, AlertTriangle } from 'lucide-react';
+import { HollowSettings, HollowSummary, PrintSettings, LengthUnit } from '../types';
+import { MATERIAL_PRESETS, estimateMass } from '../utils/meshMetrics';
+import { formatVolume } from '../utils/units';
+
+interface HollowPanelProps {
+  settings: HollowSettings;
+  onSettingsChange: (settings: HollowSettings) => void;
+  progress: number | null;
+  onCancel: () => void;
+  onRetry: () => void;
+  error: string | null;
+  coarse: boolean;
+  holeCount: number;
+  onUndoHole: () => void;
+  onClearHoles: () => void;
+  summary: HollowSummary | null;
+  printSettings: PrintSettings;
+  onExport: () => void;
+  exportError: string | null;
+  unit: LengthUnit;
+}
+
+const HollowPanel: React.FC<HollowPanelProps> = ({
+  settings,
+  onSettingsChange,
+  progress,
+  onCancel,
+  onRetry,
+  error,
+  coarse,
+  holeCount,
+  onUndoHole,
+  onClearHoles,
+  summary,
+  printSettings,
+  onExport,
+  exportError,
+  unit
+}) => {
+  const material = MATERIAL_PRESETS.find(preset => preset.id === printSettings.materialId)?.name ?? 'Custom material';
+  const weight = (volume: number) => estimateMass(volume, printSettings.density);
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      {([['wallThickness', 'Wall', '0.5'], ['drainDiameter', 'Drain hole Ø', '0.5']] as const).map(([key, label, min]) => (
+        <div key={key} className="flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-400">{label}</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={min}
+              step="0.5"
+              value={settings[key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) onSettingsChange({ ...settings, [key]: value });
+              }}
+              className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-cyan-500"
+            />
+            <span className="text-xs text-slate-500">mm</span>
+          </div>
+        </div>
+      ))}
+
+      {coarse && (
+        <p className="flex items-start gap-1 text-[11px] text-amber-300">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          The model is large for this wall, so it is sampled coarser than half the wall; walls may come out thinner than set.
+        </p>
+      )}
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span className="flex items-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Building inner shell... {Math.round(progress * 100)}%
+            </span>
+            <button onClick={onCancel} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Cancel">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-red-300">{error}</p>
+          <button onClick={onRetry} className="p-1 text-slate-400 hover:text-white transition-colors" title="Try again">
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {holeCount === 0 ? 'Click the model to add drain holes' : `${holeCount} drain hole${holeCount === 1 ? '' : 's'}`}
+            </span>
+            {holeCount > 0 && (
+              <div className="flex items-center gap-1">
+                <button onClick={onUndoHole} className="p-1 text-slate-400 hover:text-white transition-colors" title="Remove last hole">
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+                <button onClick={onClearHoles} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Remove all holes">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-1 text-xs font-mono">
+            <span />
+            <span className="text-slate-500 text-right">Solid</span>
+            <span className="text-slate-500 text-right">Hollow</span>
+            <span className="text-slate-400 font-sans">Volume</span>
+            <span className="text-slate-300 text-right">{formatVolume(summary.solidVolume, unit)}</span>
+            <span className="text-cyan-300 text-right">{formatVolume(summary.hollowVolume, unit)}</span>
+            <span className="text-slate-400 font-sans">Weight</span>
+            <span className="text-slate-300 text-right">{weight(summary.solidVolume).toFixed(1)} g</span>
+            <span className="text-cyan-300 text-right">{weight(summary.hollowVolume).toFixed(1)} g</span>
+            <span className="text-slate-400 font-sans">Cost</span>
+            <span className="text-slate-300 text-right">{(weight(summary.solidVolume) / 1000 * printSettings.pricePerKg).toFixed(2)}</span>
+            <span className="text-cyan-300 text-right">{(weight(summary.hollowVolume) / 1000 * printSettings.pricePerKg).toFixed(2)}</span>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            {material} at {printSettings.density} g/cm³; saves {Math.round((1 - summary.hollowVolume / summary.solidVolume) * 100)}% of the material.
+          </p>
+
+          <button
+            onClick={onExport}
+            className="w-full py-2 rounded-lg flex items-center justify-center gap-2 text-xs font-medium border bg-cyan-600 border-cyan-500 text-white hover:bg-cyan-500 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download Hollowed STL
+          </button>
+          {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HollowPanel;
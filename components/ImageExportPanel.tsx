@@ -0,0 +1,69 @@
+import React from 'react';
+import { ImageDown } from 'lucide-react';
+import { ImageExportOptions } from '../types';
+
+interface ImageExportPanelProps {
+  options: ImageExportOptions;
+  onOptionsChange: (options: ImageExportOptions) => void;
+  onExport: () => void;
+  error: string | null;
+}
+
+const RESOLUTIONS: { label: string, width: number, height: number }[] = [
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: 'QHD', width: 2560, height: 1440 },
+  { label: '4K UHD', width: 3840, height: 2160 },
+  { label: '8K UHD', width: 7680, height: 4320 },
+  { label: 'Square 2K', width: 2048, height: 2048 },
+  { label: 'Square 4K', width: 4096, height: 4096 },
+];
+
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({ options, onOptionsChange, onExport, error }) => {
+  const update = (changes: Partial<ImageExportOptions>) => onOptionsChange({ ...options, ...changes });
+  const resolution = `${options.width}x${options.height}`;
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <select
+        value={resolution}
+        onChange={(e) => {
+          const [width, height] = e.target.value.split('x').map(Number);
+          update({ width, height });
+        }}
+        className="w-full bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+      >
+        {RESOLUTIONS.map(({ label, width, height }) => (
+          <option key={label} value={`${width}x${height}`}>{label} ({width} × {height})</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.transparent}
+          onChange={(e) => update({ transparent: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Transparent background
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.dimensions}
+          onChange={(e) => update({ dimensions: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Dimension overlays
+      </label>
+      <button
+        onClick={onExport}
+        className="w-full p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+      >
+        <ImageDown className="w-4 h-4" />
+        <span className="text-xs font-medium">Save PNG</span>
+      </button>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default ImageExportPanel;
@@ -0,0 +1,134 @@
+import React from 'react';
+
+interface MarkdownProps {
+  text: string;
+}
+
+type Block =
+  | { type: 'heading', level: number, text: string }
+  | { type: 'paragraph', text: string }
+  | { type: 'list', ordered: boolean, items: string[] }
+  | { type: 'code', text: string };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+
+// Inline code, bold, italics and links, in order of precedence
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/;
+
+/**
+ * Splits the reply into blocks. Only the subset of Markdown the model commonly
+ * writes is recognized; an unclosed code fence (while streaming) runs to the end.
+ */
+const parseBlocks = (text: string) => {
+  const blocks: Block[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith('```')) code.push(lines[++i]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(item[3]);
+      else blocks.push({ type: 'list', ordered, items: [item[3]] });
+      continue;
+    }
+
+    if (line.trim() === '') flushParagraph();
+    else paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+};
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let key = 0;
+  while (rest.length > 0) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+    const [token, code, bold, italic, link] = match;
+    if (code) {
+      nodes.push(<code key={key++} className="px-1 rounded bg-slate-900/70 font-mono text-xs">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={key++} className="font-semibold text-white">{renderInline(bold.slice(2, -2))}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key++}>{renderInline(italic.slice(1, -1))}</em>);
+    } else if (link) {
+      const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+      // Only web links are followed
+      nodes.push(/^https?:\/\//.test(href)
+        ? <a key={key++} href={href} target="_blank" rel="noreferrer" className="text-indigo-300 underline">{label}</a>
+        : label);
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+  return nodes;
+};
+
+const HEADING_CLASSES = ['text-base', 'text-sm', 'text-sm'];
+
+const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  return (
+    <div className="space-y-2 break-words">
+      {parseBlocks(text).map((block, i) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={i} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} font-semibold text-white`}>
+                {renderInline(block.text)}
+              </p>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case 'code':
+            return (
+              <pre key={i} className="p-2 rounded bg-slate-900/70 font-mono text-xs overflow-x-auto whitespace-pre">
+                {block.text}
+              </pre>
+            );
+          default:
+            return <p key={i}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default Markdown;
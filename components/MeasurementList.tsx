@@ -0,0 +1,73 @@
+import React from 'react';
+import { Eye, EyeOff, Trash2 } from 'lucide-react';
+import { Measurement, SceneObject, LengthUnit } from '../types';
+import { formatMeasurement, measurementDeltas, formatDeltas } from '../utils/measurements';
+
+interface MeasurementListProps {
+  measurements: Measurement[];
+  objects: SceneObject[];
+  unit: LengthUnit;
+  onRename: (id: string, name: string) => void;
+  onToggleVisible: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const MeasurementList: React.FC<MeasurementListProps> = ({
+  measurements,
+  objects,
+  unit,
+  onRename,
+  onToggleVisible,
+  onDelete
+}) => {
+  if (measurements.length === 0) {
+    return <p className="text-xs text-slate-500">No measurements yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {measurements.map(measurement => {
+        const object = objects.find(o => o.id === measurement.objectId);
+        const deltas = object ? measurementDeltas(measurement, object.rotation, object.scale) : null;
+        return (
+          <div
+            key={measurement.id}
+            className="p-2 rounded-lg border bg-slate-900/50 border-slate-700 flex items-center gap-2"
+            title={object?.name}
+          >
+            <div className={`flex-1 min-w-0 ${measurement.visible ? '' : 'opacity-50'}`}>
+              <input
+                type="text"
+                value={measurement.name}
+                onChange={(e) => onRename(measurement.id, e.target.value)}
+                className="w-full bg-transparent text-sm text-white focus:outline-none focus:border-b focus:border-indigo-500"
+              />
+              <span className="block text-xs font-mono text-indigo-300 truncate">
+                {object ? formatMeasurement(measurement, object.scale, unit) : '—'}
+              </span>
+              {deltas && (
+                <span className="block text-[10px] font-mono text-slate-500 truncate">{formatDeltas(deltas, unit)}</span>
+              )}
+            </div>
+            <button
+              onClick={() => onToggleVisible(measurement.id)}
+              className="p-1 text-slate-400 hover:text-white transition-colors"
+              title={measurement.visible ? 'Hide' : 'Show'}
+            >
+              {measurement.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => onDelete(measurement.id)}
+              className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MeasurementList;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, Wrench, Download } from 'lucide-react';
+import { MeshDiagnostics, MeshIssueCategory, MeshRepairReport } from '../types';
+
+interface MeshDiagnosticsPanelProps {
+  diagnostics: MeshDiagnostics | null;
+  highlightedIssue: MeshIssueCategory | null;
+  onHighlightIssue: (category: MeshIssueCategory | null) => void;
+  repairReport: MeshRepairReport | null;
+  onRepairMesh: () => void;
+  onDownloadRepaired: () => void;
+}
+
+const MeshDiagnosticsPanel: React.FC<MeshDiagnosticsPanelProps> = ({
+  diagnostics,
+  highlightedIssue,
+  onHighlightIssue,
+  repairReport,
+  onRepairMesh,
+  onDownloadRepaired
+}) => {
+  if (!diagnostics) {
+    return (
+      <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 text-xs text-slate-500">
+        Checking mesh...
+      </div>
+    );
+  }
+
+  const problemCount = diagnostics.issues.reduce((sum, issue) => sum + issue.count, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className={`p-3 rounded-lg border flex items-center gap-2 ${
+        problemCount === 0
+          ? 'bg-emerald-900/30 border-emerald-700 text-emerald-300'
+          : 'bg-amber-900/30 border-amber-700 text-amber-300'
+      }`}>
+        {problemCount === 0 ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+        <span className="text-sm font-medium">
+          {problemCount === 0 ? 'Mesh is clean' : diagnostics.isWatertight ? 'Watertight with issues' : 'Mesh is not watertight'}
+        </span>
+      </div>
+
+      <div className="text-xs text-slate-500 flex justify-between px-1">
+        <span>{diagnostics.triangleCount.toLocaleString()} triangles</span>
+        <span>{diagnostics.shellCount} shell{diagnostics.shellCount === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="grid grid-cols-1 gap-1">
+        {diagnostics.issues.map(issue => {
+          const isActive = highlightedIssue === issue.category;
+          return (
+            <button
+              key={issue.category}
+              onClick={() => onHighlightIssue(isActive ? null : issue.category)}
+              disabled={issue.count === 0}
+              className={`p-2 rounded-lg border flex justify-between items-center text-sm transition-colors disabled:cursor-default ${
+                isActive
+                  ? 'bg-rose-600/20 border-rose-500 text-white'
+                  : 'bg-slate-900/50 border-slate-700 text-slate-400 enabled:hover:border-slate-500'
+              }`}
+            >
+              <span>{issue.label}</span>
+              <span className={`font-mono font-bold ${issue.count === 0 ? 'text-slate-600' : 'text-rose-300'}`}>
+                {issue.count.toLocaleString()}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onRepairMesh}
+        className="w-full p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+      >
+        <Wrench className="w-4 h-4" />
+        <span className="text-xs font-medium">Repair Mesh</span>
+      </button>
+
+      {repairReport && (
+        <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-1 text-xs">
+          <div className="flex justify-between text-slate-400">
+            <span>Triangles</span>
+            <span className="font-mono text-slate-200">
+              {repairReport.triangleCountBefore.toLocaleString()} → {repairReport.triangleCountAfter.toLocaleString()}
+            </span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Vertices merged</span>
+            <span className="font-mono text-slate-200">{repairReport.verticesMerged.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Degenerate removed</span>
+            <span className="font-mono text-slate-200">{repairReport.degenerateRemoved.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Duplicates removed</span>
+            <span className="font-mono text-slate-200">{repairReport.duplicatesRemoved.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Faces flipped</span>
+            <span className="font-mono text-slate-200">{repairReport.facesFlipped.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Holes filled</span>
+            <span className="font-mono text-slate-200">
+              {repairReport.holesFilled} ({repairReport.trianglesAdded.toLocaleString()} tris)
+            </span>
+          </div>
+          <div className={`pt-1 font-medium ${repairReport.isWatertight ? 'text-emerald-300' : 'text-amber-300'}`}>
+            {repairReport.isWatertight ? 'Result is watertight' : 'Some open or non-manifold edges remain'}
+          </div>
+          <button
+            onClick={onDownloadRepaired}
+            className="w-full mt-2 p-2 rounded-lg flex items-center justify-center gap-2 transition-colors bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            <Download className="w-4 h-4" />
+            <span className="text-xs font-medium">Download Repaired STL</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeshDiagnosticsPanel;
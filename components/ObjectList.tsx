@@ -0,0 +1,69 @@
+import React from 'react';
+import { Eye, EyeOff, Copy, Trash2 } from 'lucide-react';
+import { SceneObject } from '../types';
+
+interface ObjectListProps {
+  objects: SceneObject[];
+  selectedId: string | null;
+  onSelectObject: (id: string) => void;
+  onToggleVisible: (id: string) => void;
+  onDuplicateObject: (id: string) => void;
+  onDeleteObject: (id: string) => void;
+}
+
+const ObjectList: React.FC<ObjectListProps> = ({
+  objects,
+  selectedId,
+  onSelectObject,
+  onToggleVisible,
+  onDuplicateObject,
+  onDeleteObject
+}) => {
+  if (objects.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      {objects.map(object => {
+        const isSelected = object.id === selectedId;
+        return (
+          <div
+            key={object.id}
+            onClick={() => onSelectObject(object.id)}
+            className={`p-2 rounded-lg border flex items-center gap-2 cursor-pointer transition-colors ${
+              isSelected
+                ? 'bg-indigo-600/20 border-indigo-500 text-white'
+                : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            <span className={`flex-1 text-sm truncate ${object.visible ? '' : 'opacity-50'}`} title={object.name}>
+              {object.name}
+            </span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleVisible(object.id); }}
+              className="p-1 text-slate-400 hover:text-white transition-colors"
+              title={object.visible ? 'Hide' : 'Show'}
+            >
+              {object.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicateObject(object.id); }}
+              className="p-1 text-slate-400 hover:text-white transition-colors"
+              title="Duplicate"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDeleteObject(object.id); }}
+              className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ObjectList;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { PrintSettings, PrintEstimate } from '../types';
+import { formatDuration } from '../utils/printEstimate';
+
+interface PrintEstimatePanelProps {
+  settings: PrintSettings;
+  onSettingsChange: (settings: PrintSettings) => void;
+  estimate: PrintEstimate | null;
+}
+
+const SETTING_FIELDS: { key: keyof PrintSettings, label: string, unit: string, min: number, step: number, max?: number }[] = [
+  { key: 'layerHeight', label: 'Layer height', unit: 'mm', min: 0.04, step: 0.04 },
+  { key: 'wallCount', label: 'Walls', unit: '', min: 1, step: 1 },
+  { key: 'infill', label: 'Infill', unit: '%', min: 0, step: 5, max: 100 },
+  { key: 'filamentDiameter', label: 'Filament', unit: 'mm', min: 1, step: 0.05 },
+  { key: 'pricePerKg', label: 'Price', unit: '/kg', min: 0, step: 1 },
+];
+
+const PrintEstimatePanel: React.FC<PrintEstimatePanelProps> = ({ settings, onSettingsChange, estimate }) => {
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="grid grid-cols-1 gap-2">
+        {SETTING_FIELDS.map(field => (
+          <div key={field.key} className="flex justify-between items-center gap-2">
+            <span className="text-xs text-slate-400">{field.label}</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={settings[field.key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  // Zero is only meaningful for infill and price
+                  const valid = field.min === 0 ? value >= 0 : value > 0;
+                  if (!isNaN(value) && valid && (field.max === undefined || value <= field.max)) {
+                    onSettingsChange({ ...settings, [field.key]: value });
+                  }
+                }}
+                className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+              />
+              <span className="w-6 text-xs text-slate-500">{field.unit}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {estimate && (
+        <div className="space-y-1 pt-2 border-t border-slate-700 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Filament</span>
+            <span className="font-mono text-indigo-300">{(estimate.filamentLength / 1000).toFixed(2)} m</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Weight</span>
+            <span className="font-mono text-amber-300">{estimate.weight.toFixed(1)} g</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Cost</span>
+            <span className="font-mono text-emerald-300">{estimate.cost.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Print time</span>
+            <span className="font-mono text-indigo-300">~{formatDuration(estimate.printTime)}</span>
+          </div>
+          <p className="text-[10px] text-slate-500 pt-1">Rough estimate at 60 mm/s without supports.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrintEstimatePanel;
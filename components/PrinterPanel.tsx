@@ -0,0 +1,102 @@
+import React from 'react';
+import { Printer, CheckCircle2, AlertTriangle, Maximize } from 'lucide-react';
+import { PrinterProfile } from '../types';
+import { PRINTER_PROFILES } from '../utils/printerProfiles';
+
+interface PrinterPanelProps {
+  printer: PrinterProfile | null;
+  onPrinterChange: (printer: PrinterProfile | null) => void;
+  outOfBoundsNames: string[];
+  hasSelection: boolean;
+  onScaleToFit: () => void;
+}
+
+const DEFAULT_CUSTOM: PrinterProfile = { id: 'custom', name: 'Custom', width: 200, depth: 200, height: 200 };
+
+const PrinterPanel: React.FC<PrinterPanelProps> = ({
+  printer,
+  onPrinterChange,
+  outOfBoundsNames,
+  hasSelection,
+  onScaleToFit
+}) => {
+  const handleSelect = (id: string) => {
+    if (id === 'none') {
+      onPrinterChange(null);
+    } else if (id === 'custom') {
+      // Start the custom volume from whatever was selected before
+      onPrinterChange(printer ? { ...printer, id: 'custom', name: 'Custom' } : DEFAULT_CUSTOM);
+    } else {
+      onPrinterChange(PRINTER_PROFILES.find(p => p.id === id) ?? null);
+    }
+  };
+
+  const handleDimensionChange = (key: 'width' | 'depth' | 'height', value: string) => {
+    const val = parseFloat(value);
+    if (printer && !isNaN(val) && val > 0) {
+      onPrinterChange({ ...printer, [key]: val });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700 flex items-center gap-2">
+        <Printer className="w-4 h-4 text-slate-400" />
+        <select
+          value={printer?.id ?? 'none'}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+        >
+          <option value="none">No printer</option>
+          {PRINTER_PROFILES.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+      </div>
+
+      {printer && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {(['width', 'depth', 'height'] as const).map((key, i) => (
+              <div key={key} className="bg-slate-900/50 p-2 rounded-lg border border-slate-700">
+                <span className="text-slate-500 text-[10px] uppercase block">{['X', 'Y', 'Z'][i]} (mm)</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={printer[key]}
+                  disabled={printer.id !== 'custom'}
+                  onChange={(e) => handleDimensionChange(key, e.target.value)}
+                  className="w-full bg-transparent text-white font-mono text-sm focus:outline-none disabled:text-slate-400"
+                />
+              </div>
+            ))}
+          </div>
+
+          {outOfBoundsNames.length === 0 ? (
+            <div className="p-2 rounded-lg border bg-emerald-900/30 border-emerald-700 text-emerald-300 flex items-center gap-2 text-xs">
+              <CheckCircle2 className="w-4 h-4" />
+              <span>All objects fit the build volume</span>
+            </div>
+          ) : (
+            <div className="p-2 rounded-lg border bg-red-900/40 border-red-700 text-red-200 flex gap-2 text-xs">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>Out of bounds: {outOfBoundsNames.join(', ')}</span>
+            </div>
+          )}
+
+          <button
+            onClick={onScaleToFit}
+            disabled={!hasSelection}
+            className="w-full p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Maximize className="w-4 h-4" />
+            <span className="text-xs font-medium">Scale to Fit</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrinterPanel;
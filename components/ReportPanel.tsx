@@ -0,0 +1,68 @@
+import React from 'react';
+import { Camera, X, FileText, Printer, FileJson, LucideIcon } from 'lucide-react';
+import { ReportFormat } from '../types';
+
+interface ReportPanelProps {
+  snapshots: string[];
+  onCapture: () => void;
+  onRemove: (index: number) => void;
+  onExport: (format: ReportFormat) => void;
+}
+
+const FORMATS: { id: ReportFormat, label: string, icon: LucideIcon }[] = [
+  { id: 'html', label: 'HTML', icon: FileText },
+  { id: 'print', label: 'Print / PDF', icon: Printer },
+  { id: 'json', label: 'JSON', icon: FileJson },
+];
+
+const ReportPanel: React.FC<ReportPanelProps> = ({ snapshots, onCapture, onRemove, onExport }) => {
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">
+          {snapshots.length > 0 ? `${snapshots.length} snapshot${snapshots.length > 1 ? 's' : ''}` : 'Current view is used'}
+        </span>
+        <button
+          onClick={onCapture}
+          className="px-2 py-1 rounded text-xs font-medium border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 flex items-center gap-1 transition-colors"
+        >
+          <Camera className="w-3 h-3" />
+          Capture View
+        </button>
+      </div>
+
+      {snapshots.length > 0 && (
+        <div className="grid grid-cols-3 gap-1">
+          {snapshots.map((src, i) => (
+            <div key={i} className="relative group">
+              <img src={src} alt={`Snapshot ${i + 1}`} className="w-full aspect-video object-cover rounded border border-slate-700" />
+              <button
+                onClick={() => onRemove(i)}
+                className="absolute top-0.5 right-0.5 p-0.5 rounded bg-slate-900/80 text-slate-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {FORMATS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => onExport(id)}
+            className="p-2 rounded-lg flex flex-col items-center gap-1 border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500 transition-all"
+          >
+            <Icon className="w-4 h-4" />
+            <span className="text-xs font-medium">{label}</span>
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-500">Print / PDF opens the browser's print dialog; choose Save as PDF there to keep a PDF copy.</p>
+    </div>
+  );
+};
+
+export default ReportPanel;
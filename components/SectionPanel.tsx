@@ -0,0 +1,114 @@
+import React from 'react';
+import { FileDown } from 'lucide-react';
+import { CrossSection, SectionPlane, LengthUnit } from '../types';
+import { formatLength, formatArea, UNIT_FACTORS } from '../utils/units';
+
+interface SectionPanelProps {
+  plane: SectionPlane;
+  range: [number, number];
+  onAxisSelect: (axis: 'x' | 'y' | 'z') => void;
+  onOffsetChange: (offset: number) => void;
+  section: CrossSection | null;
+  onExport: (format: 'svg' | 'dxf') => void;
+  unit: LengthUnit;
+}
+
+const AXES = [
+  { id: 'x', label: 'X', normal: [1, 0, 0] },
+  { id: 'y', label: 'Y', normal: [0, 1, 0] },
+  { id: 'z', label: 'Z', normal: [0, 0, 1] },
+] as const;
+
+const SectionPanel: React.FC<SectionPanelProps> = ({
+  plane,
+  range,
+  onAxisSelect,
+  onOffsetChange,
+  section,
+  onExport,
+  unit
+}) => {
+  const activeAxis = AXES.find(axis => axis.normal.every((value, i) => Math.abs(plane.normal[i] - value) < 1e-6));
+  const step = Math.max((range[1] - range[0]) / 500, 0.01);
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="grid grid-cols-4 gap-1">
+        {AXES.map(axis => (
+          <button
+            key={axis.id}
+            onClick={() => onAxisSelect(axis.id)}
+            className={`py-1 rounded text-xs font-medium border transition-colors ${
+              activeAxis?.id === axis.id
+                ? 'bg-amber-600 border-amber-500 text-white'
+                : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {axis.label}
+          </button>
+        ))}
+        <span className={`py-1 rounded text-xs font-medium border text-center ${
+          activeAxis ? 'border-slate-700 text-slate-500' : 'bg-amber-600 border-amber-500 text-white'
+        }`}>
+          Face
+        </span>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <span>Plane offset</span>
+          <span className="font-mono text-white">{formatLength(plane.offset, unit)}</span>
+        </div>
+        <input
+          type="range"
+          min={range[0]}
+          max={range[1]}
+          step={step}
+          value={plane.offset}
+          onChange={(e) => onOffsetChange(parseFloat(e.target.value))}
+          className="w-full accent-amber-500"
+        />
+      </div>
+
+      {section && section.loops.length + section.openPaths.length > 0 ? (
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Contours</span>
+            <span className="font-mono text-slate-200">
+              {section.loops.length}{section.openPaths.length > 0 ? ` (+${section.openPaths.length} open)` : ''}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Perimeter</span>
+            <span className="font-mono text-indigo-300">{formatLength(section.perimeter, unit)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Area</span>
+            <span className="font-mono text-emerald-300">{formatArea(section.area, unit)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Section size</span>
+            <span className="font-mono text-slate-200">{(section.width / UNIT_FACTORS[unit]).toFixed(2)} × {formatLength(section.height, unit)}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2 pt-2">
+            {(['svg', 'dxf'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+              >
+                <FileDown className="w-4 h-4" />
+                <span className="text-xs font-medium uppercase">{format}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">The plane does not cut the selected object.</p>
+      )}
+      <p className="text-[11px] text-slate-500">Click a face in the viewer to cut parallel to it.</p>
+    </div>
+  );
+};
+
+export default SectionPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { SessionSummary } from '../types';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// How many sessions the startup list shows
+const MAX_RECENT = 8;
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, onOpen, onDelete }) => {
+  return (
+    <div className="space-y-1">
+      {sessions.slice(0, MAX_RECENT).map(session => (
+        <div
+          key={session.id}
+          className="p-2 rounded-lg border bg-slate-900/50 border-slate-700 hover:border-indigo-500 flex items-center gap-2 transition-colors"
+        >
+          <button onClick={() => onOpen(session.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+            <History className="w-4 h-4 text-slate-400 shrink-0" />
+            <div className="min-w-0">
+              <span className="block text-sm text-white truncate">{session.name}</span>
+              <span className="block text-[11px] text-slate-500">
+                {new Date(session.savedAt).toLocaleString()} · {session.objectCount} object{session.objectCount === 1 ? '' : 's'}
+              </span>
+            </div>
+          </button>
+          <button
+            onClick={() => onDelete(session.id)}
+            className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -1,39 +1,313 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Box, Ruler, MessageSquare, Loader2, Send, Rotate3d, Info, MousePointer2, ArrowDownToLine, Scaling } from 'lucide-react';
-import { ModelDimensions, AnalysisMessage, ViewerMode } from '../types';
-import { analyzeModelImage } from '../services/geminiService';
+import { Upload, Box, Ruler, MessageSquare, Loader2, Send, Rotate3d, Info, MousePointer2, ArrowDownToLine, Scaling, Weight, Download, AlertTriangle, Triangle, Sparkles, Scissors, Layers, X, RotateCcw, GitCompare, Orbit, Droplets } from 'lucide-react';
+import { ModelDimensions, AnalysisMessage, ViewerMode, MeshDiagnostics, MeshIssueCategory, MeshRepairReport, SceneObject, PrinterProfile, OrientationCandidate, SectionPlane, CrossSection, Measurement, MeasurementKind, SnapMode, ThinRegion, LoadProgress, LengthUnit, PrintSettings, PrintEstimate, ReportFormat, SessionSummary, AlignmentMethod, DeviationSummary, CutOptions, HollowSettings, HollowSummary, ImageExportOptions } from '../types';
+import { MATERIAL_PRESETS, estimateMass } from '../utils/meshMetrics';
+import { SUPPORTED_EXTENSIONS } from '../utils/modelLoader';
+import { SESSION_BUNDLE_EXTENSION } from '../utils/sessionStore';
+import { MEASUREMENT_KINDS } from '../utils/measurements';
+import { formatLength, formatArea, formatVolume, looksLikeInches, UNIT_FACTORS, UNIT_LABELS } from '../utils/units';
+import MeshDiagnosticsPanel from './MeshDiagnosticsPanel';
+import ObjectList from './ObjectList';
+import PrinterPanel from './PrinterPanel';
+import SectionPanel from './SectionPanel';
+import MeasurementList from './MeasurementList';
+import ThicknessPanel from './ThicknessPanel';
+import ComparePanel from './ComparePanel';
+import TransformPanel from './TransformPanel';
+import CutPanel from './CutPanel';
+import HollowPanel from './HollowPanel';
+import PrintEstimatePanel from './PrintEstimatePanel';
+import ReportPanel from './ReportPanel';
+import ImageExportPanel from './ImageExportPanel';
+import SessionList from './SessionList';
+import Markdown from './Markdown';
 
 interface SidebarProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (file: File) => Promise<unknown>;
+  isLoading: boolean;
+  loadProgress: LoadProgress | null;
+  onCancelLoad: () => void;
+  loadError: string | null;
+  objects: SceneObject[];
+  selectedId: string | null;
+  onSelectObject: (id: string) => void;
+  onToggleVisible: (id: string) => void;
+  onDuplicateObject: (id: string) => void;
+  onDeleteObject: (id: string) => void;
   dimensions: ModelDimensions | null;
-  getCanvasScreenshot: () => string | null;
+  messages: AnalysisMessage[];
+  isAnalyzing: boolean;
+  onSendMessage: (prompt: string) => void;
+  onCancelAnalysis: () => void;
+  onRetryAnalysis: () => void;
   viewerMode: ViewerMode;
   setViewerMode: (mode: ViewerMode) => void;
   onRotateModel: () => void;
   scale: number;
   onScaleChange: (scale: number) => void;
+  onRotateAxis: (axis: 'x' | 'y' | 'z', degrees: number) => void;
+  onMirror: (axis: 'x' | 'y' | 'z') => void;
+  onAxisScale: (factors: [number, number, number]) => void;
+  onScaleToDimension: (axis: 'x' | 'y' | 'z', size: number) => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  position: [number, number];
+  onPositionChange: (position: [number, number]) => void;
+  displayUnit: LengthUnit;
+  onDisplayUnitChange: (unit: LengthUnit) => void;
+  sourceUnit: LengthUnit;
+  onSourceUnitChange: (unit: LengthUnit) => void;
+  unitHintDismissed: boolean;
+  onDismissUnitHint: () => void;
+  diagnostics: MeshDiagnostics | null;
+  highlightedIssue: MeshIssueCategory | null;
+  onHighlightIssue: (category: MeshIssueCategory | null) => void;
+  repairReport: MeshRepairReport | null;
+  onRepairMesh: () => void;
+  onDownloadRepaired: () => void;
+  onExportModel: (binary: boolean) => void;
+  printer: PrinterProfile | null;
+  onPrinterChange: (printer: PrinterProfile | null) => void;
+  outOfBoundsNames: string[];
+  onScaleToFit: () => void;
+  overhangAngle: number;
+  onOverhangAngleChange: (angle: number) => void;
+  overhangArea: number | null;
+  orientationCandidates: OrientationCandidate[] | null;
+  onAutoOrient: () => void;
+  onApplyOrientation: (candidate: OrientationCandidate) => void;
+  sectionPlane: SectionPlane;
+  sectionRange: [number, number];
+  onSectionAxis: (axis: 'x' | 'y' | 'z') => void;
+  onSectionOffset: (offset: number) => void;
+  section: CrossSection | null;
+  onExportSection: (format: 'svg' | 'dxf') => void;
+  cutOptions: CutOptions;
+  onCutOptionsChange: (options: CutOptions) => void;
+  onCutModel: () => void;
+  cutError: string | null;
+  cutParts: SceneObject[];
+  cutOpenContours: number;
+  cutPins: { count: number, depth: number, diameter: number } | null;
+  onDownloadPart: (id: string) => void;
+  measurements: Measurement[];
+  measureKind: MeasurementKind;
+  onMeasureKindChange: (kind: MeasurementKind) => void;
+  snapMode: SnapMode;
+  onSnapModeChange: (mode: SnapMode) => void;
+  minThickness: number;
+  onMinThicknessChange: (value: number) => void;
+  thicknessProgress: number | null;
+  onCancelThickness: () => void;
+  onRetryThickness: () => void;
+  thicknessError: string | null;
+  thicknessSummary: { thinArea: number, regionCount: number, regions: ThinRegion[] } | null;
+  hollowSettings: HollowSettings;
+  onHollowSettingsChange: (settings: HollowSettings) => void;
+  hollowProgress: number | null;
+  onCancelHollow: () => void;
+  onRetryHollow: () => void;
+  hollowError: string | null;
+  hollowCoarse: boolean;
+  hollowExportError: string | null;
+  drainHoleCount: number;
+  onUndoDrainHole: () => void;
+  onClearDrainHoles: () => void;
+  hollowSummary: HollowSummary | null;
+  onExportHollow: () => void;
+  compareReferenceId: string | null;
+  onCompareReferenceChange: (id: string) => void;
+  onLoadReference: (file: File) => void;
+  alignment: AlignmentMethod;
+  onAlignmentChange: (alignment: AlignmentMethod) => void;
+  deviationTolerance: number;
+  onDeviationToleranceChange: (value: number) => void;
+  deviationProgress: number | null;
+  onCancelDeviation: () => void;
+  onRetryDeviation: () => void;
+  deviationError: string | null;
+  deviationSummary: DeviationSummary | null;
+  deviationFitError: number | null;
+  printSettings: PrintSettings;
+  onPrintSettingsChange: (settings: PrintSettings) => void;
+  printEstimate: PrintEstimate | null;
+  reportSnapshots: string[];
+  onCaptureSnapshot: () => void;
+  onRemoveSnapshot: (index: number) => void;
+  onExportReport: (format: ReportFormat) => void;
+  imageExportOptions: ImageExportOptions;
+  onImageExportOptionsChange: (options: ImageExportOptions) => void;
+  onExportImage: () => void;
+  imageExportError: string | null;
+  recentSessions: SessionSummary[];
+  onOpenSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+  onImportSession: (file: File) => Promise<void>;
+  onExportSession: () => void;
+  onRenameMeasurement: (id: string, name: string) => void;
+  onToggleMeasurement: (id: string) => void;
+  onDeleteMeasurement: (id: string) => void;
 }
 
+const UNIT_OPTIONS: LengthUnit[] = ['mm', 'cm', 'in'];
+
+const LOAD_STAGE_LABELS: Record<LoadProgress['stage'], string> = {
+  reading: 'Reading file...',
+  parsing: 'Parsing geometry...',
+  analyzing: 'Analyzing mesh...',
+};
+
+const SNAP_MODES: { id: SnapMode, label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'vertex', label: 'Vertex' },
+  { id: 'edge', label: 'Edge' },
+  { id: 'center', label: 'Center' },
+];
+
 const Sidebar: React.FC<SidebarProps> = ({ 
   onFileUpload, 
+  isLoading,
+  loadProgress,
+  onCancelLoad,
+  loadError,
+  objects,
+  selectedId,
+  onSelectObject,
+  onToggleVisible,
+  onDuplicateObject,
+  onDeleteObject,
   dimensions, 
-  getCanvasScreenshot,
+  messages,
+  isAnalyzing,
+  onSendMessage,
+  onCancelAnalysis,
+  onRetryAnalysis,
   viewerMode,
   setViewerMode,
   onRotateModel,
   scale,
-  onScaleChange
+  onScaleChange,
+  onRotateAxis,
+  onMirror,
+  onAxisScale,
+  onScaleToDimension,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  position,
+  onPositionChange,
+  displayUnit,
+  onDisplayUnitChange,
+  sourceUnit,
+  onSourceUnitChange,
+  unitHintDismissed,
+  onDismissUnitHint,
+  diagnostics,
+  highlightedIssue,
+  onHighlightIssue,
+  repairReport,
+  onRepairMesh,
+  onDownloadRepaired,
+  onExportModel,
+  printer,
+  onPrinterChange,
+  outOfBoundsNames,
+  onScaleToFit,
+  overhangAngle,
+  onOverhangAngleChange,
+  overhangArea,
+  orientationCandidates,
+  onAutoOrient,
+  onApplyOrientation,
+  sectionPlane,
+  sectionRange,
+  onSectionAxis,
+  onSectionOffset,
+  section,
+  onExportSection,
+  cutOptions,
+  onCutOptionsChange,
+  onCutModel,
+  cutError,
+  cutParts,
+  cutOpenContours,
+  cutPins,
+  onDownloadPart,
+  measurements,
+  measureKind,
+  onMeasureKindChange,
+  snapMode,
+  onSnapModeChange,
+  minThickness,
+  onMinThicknessChange,
+  thicknessProgress,
+  onCancelThickness,
+  onRetryThickness,
+  thicknessError,
+  thicknessSummary,
+  hollowSettings,
+  onHollowSettingsChange,
+  hollowProgress,
+  onCancelHollow,
+  onRetryHollow,
+  hollowError,
+  hollowCoarse,
+  hollowExportError,
+  drainHoleCount,
+  onUndoDrainHole,
+  onClearDrainHoles,
+  hollowSummary,
+  onExportHollow,
+  compareReferenceId,
+  onCompareReferenceChange,
+  onLoadReference,
+  alignment,
+  onAlignmentChange,
+  deviationTolerance,
+  onDeviationToleranceChange,
+  deviationProgress,
+  onCancelDeviation,
+  onRetryDeviation,
+  deviationError,
+  deviationSummary,
+  deviationFitError,
+  printSettings,
+  onPrintSettingsChange,
+  printEstimate,
+  reportSnapshots,
+  onCaptureSnapshot,
+  onRemoveSnapshot,
+  onExportReport,
+  imageExportOptions,
+  onImageExportOptionsChange,
+  onExportImage,
+  imageExportError,
+  recentSessions,
+  onOpenSession,
+  onDeleteSession,
+  onImportSession,
+  onExportSession,
+  onRenameMeasurement,
+  onToggleMeasurement,
+  onDeleteMeasurement
 }) => {
   const [activeTab, setActiveTab] = useState<'info' | 'ai'>('info');
-  const [messages, setMessages] = useState<AnalysisMessage[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [prompt, setPrompt] = useState('');
+  const [exportBinary, setExportBinary] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileUpload(e.target.files[0]);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    if (!input.files) return;
+    // Each file becomes its own object in the workspace, session bundles replace it
+    for (const file of Array.from(input.files)) {
+      if (file.name.toLowerCase().endsWith(SESSION_BUNDLE_EXTENSION)) await onImportSession(file);
+      else await onFileUpload(file);
     }
+    input.value = '';
   };
 
   const scrollToBottom = () => {
@@ -44,33 +318,11 @@ const Sidebar: React.FC<SidebarProps> = ({
     scrollToBottom();
   }, [messages]);
 
-  const handleSendMessage = async () => {
-    if (!prompt.trim() && messages.length > 0) return;
-    
-    const screenshot = getCanvasScreenshot();
-    if (!screenshot) {
-      setMessages(prev => [...prev, { role: 'ai', content: 'Please load a 3D model first to analyze it.', isError: true }]);
-      return;
-    }
-
-    const currentPrompt = prompt.trim() || "What is this object and what are the 3D printing considerations?";
+  const handleSendMessage = () => {
+    // An empty prompt only starts the automatic first analysis
+    if (isAnalyzing || (!prompt.trim() && messages.length > 0)) return;
+    onSendMessage(prompt);
     setPrompt('');
-    setIsAnalyzing(true);
-    
-    if (prompt.trim()) {
-      setMessages(prev => [...prev, { role: 'user', content: currentPrompt }]);
-    } else if (messages.length === 0) {
-       setMessages(prev => [...prev, { role: 'user', content: "Analyze this model." }]);
-    }
-
-    try {
-      const response = await analyzeModelImage(screenshot, currentPrompt);
-      setMessages(prev => [...prev, { role: 'ai', content: response }]);
-    } catch (error) {
-      setMessages(prev => [...prev, { role: 'ai', content: "Failed to analyze the model.", isError: true }]);
-    } finally {
-      setIsAnalyzing(false);
-    }
   };
 
   return (
@@ -109,22 +361,97 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className="p-4 bg-slate-700/30 rounded-lg border border-slate-600 border-dashed hover:border-indigo-500 transition-colors cursor-pointer relative group">
               <input
                 type="file"
-                accept=".stl"
+                accept={[...SUPPORTED_EXTENSIONS, SESSION_BUNDLE_EXTENSION].join(',')}
                 onChange={handleFileChange}
+                disabled={isLoading}
+                multiple
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
               />
               <div className="flex flex-col items-center justify-center text-center gap-2 py-4">
-                <Upload className="w-8 h-8 text-indigo-400 group-hover:scale-110 transition-transform" />
-                <span className="text-sm font-medium text-slate-300 group-hover:text-white">Upload STL File</span>
-                <span className="text-xs text-slate-500">Drag & drop or click</span>
+                {isLoading ? (
+                  <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" />
+                ) : (
+                  <Upload className="w-8 h-8 text-indigo-400 group-hover:scale-110 transition-transform" />
+                )}
+                <span className="text-sm font-medium text-slate-300 group-hover:text-white">
+                  {isLoading ? 'Loading Model...' : 'Upload 3D Model'}
+                </span>
+                <span className="text-xs text-slate-500">STL, OBJ, 3MF, PLY, glTF or session file</span>
               </div>
             </div>
 
+            {loadProgress && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                  <span>
+                    {LOAD_STAGE_LABELS[loadProgress.stage]}
+                    {loadProgress.progress !== null && ` ${Math.round(loadProgress.progress * 100)}%`}
+                  </span>
+                  <button onClick={onCancelLoad} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Cancel">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full bg-indigo-500 transition-all ${loadProgress.progress === null ? 'animate-pulse' : ''}`}
+                    style={{ width: `${(loadProgress.progress ?? 1) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {loadError && (
+              <div className="p-3 rounded-lg bg-red-900/50 border border-red-700 text-red-200 text-xs flex gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>{loadError}</span>
+              </div>
+            )}
+
+            {objects.length > 0 && (
+              <div>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Objects</h3>
+                <ObjectList
+                  objects={objects}
+                  selectedId={selectedId}
+                  onSelectObject={onSelectObject}
+                  onToggleVisible={onToggleVisible}
+                  onDuplicateObject={onDuplicateObject}
+                  onDeleteObject={onDeleteObject}
+                />
+              </div>
+            )}
+
             {dimensions ? (
               <div className="space-y-4 animate-fade-in">
-                
+
+                {!unitHintDismissed && looksLikeInches(dimensions, scale, sourceUnit) && (
+                  <div className="p-3 rounded-lg bg-amber-900/40 border border-amber-700 text-amber-100 text-xs space-y-2">
+                    <div className="flex gap-2">
+                      <AlertTriangle className="w-4 h-4 shrink-0 text-amber-400" />
+                      <span>
+                        This model is only {formatLength(Math.max(dimensions.width, dimensions.height, dimensions.depth), 'mm')} across.
+                        It looks like it was exported in inches.
+                      </span>
+                    </div>
+                    <div className="flex gap-2 justify-end">
+                      <button
+                        onClick={onDismissUnitHint}
+                        className="px-2 py-1 rounded text-slate-300 hover:text-white transition-colors"
+                      >
+                        Keep mm
+                      </button>
+                      <button
+                        onClick={() => onSourceUnitChange('in')}
+                        className="px-2 py-1 rounded bg-amber-600 hover:bg-amber-500 text-white font-medium transition-colors"
+                      >
+                        Convert from inches
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Orientation</h3>
-                 <div className="grid grid-cols-2 gap-2">
+                 <div className="grid grid-cols-3 gap-2">
                    <button
                     onClick={() => setViewerMode(viewerMode === ViewerMode.ALIGN ? ViewerMode.VIEW : ViewerMode.ALIGN)}
                     className={`p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
@@ -144,7 +471,48 @@ const Sidebar: React.FC<SidebarProps> = ({
                     <Rotate3d className="w-5 h-5" />
                     <span className="text-xs font-medium">Rotate X</span>
                   </button>
+
+                  <button
+                    onClick={() => setViewerMode(viewerMode === ViewerMode.ROTATE ? ViewerMode.VIEW : ViewerMode.ROTATE)}
+                    className={`p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                      viewerMode === ViewerMode.ROTATE 
+                        ? 'bg-emerald-600 border-emerald-500 text-white shadow-lg' 
+                        : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                    }`}
+                  >
+                    <Orbit className="w-5 h-5" />
+                    <span className="text-xs font-medium">Gizmo</span>
+                  </button>
                  </div>
+                 <button
+                  onClick={onAutoOrient}
+                  className="w-full p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  <span className="text-xs font-medium">Auto-orient</span>
+                </button>
+                {orientationCandidates && (
+                  <div className="space-y-1">
+                    {orientationCandidates.map((candidate, i) => (
+                      <button
+                        key={i}
+                        onClick={() => onApplyOrientation(candidate)}
+                        className="w-full p-2 rounded-lg border bg-slate-900/50 border-slate-700 hover:border-emerald-500 text-left transition-colors"
+                      >
+                        <div className="flex justify-between text-xs">
+                          <span className="text-slate-300 font-medium">Option {i + 1}</span>
+                          <span className="text-slate-500 capitalize">{candidate.source}</span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-1 mt-1 text-[11px] font-mono">
+                          <span className="text-amber-300" title="Overhang area">{formatArea(candidate.overhangArea, displayUnit, 0)}</span>
+                          <span className="text-emerald-300" title="Bed contact area">{formatArea(candidate.contactArea, displayUnit, 0)}</span>
+                          <span className="text-indigo-300 text-right" title="Height">{formatLength(candidate.height, displayUnit, 1)}</span>
+                        </div>
+                      </button>
+                    ))}
+                    <p className="text-[11px] text-slate-500 px-1">Overhang · bed contact · height. Best first.</p>
+                  </div>
+                )}
 
                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Scale (%)</h3>
                 <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700 flex items-center gap-2">
@@ -164,6 +532,94 @@ const Sidebar: React.FC<SidebarProps> = ({
                   />
                 </div>
 
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Transform</h3>
+                <TransformPanel
+                  dimensions={dimensions}
+                  onRotateAxis={onRotateAxis}
+                  onMirror={onMirror}
+                  onAxisScale={onAxisScale}
+                  onScaleToDimension={onScaleToDimension}
+                  undoLabel={undoLabel}
+                  redoLabel={redoLabel}
+                  onUndo={onUndo}
+                  onRedo={onRedo}
+                  unit={displayUnit}
+                />
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Position ({UNIT_LABELS[displayUnit]})</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['X', 'Z'] as const).map((axis, i) => (
+                    <div key={axis} className="bg-slate-900/50 p-2 rounded-lg border border-slate-700 flex items-center gap-2">
+                      <span className="text-slate-400 text-xs font-medium">{axis}</span>
+                      <input
+                        type="number"
+                        step="any"
+                        value={Math.round(position[i] / UNIT_FACTORS[displayUnit] * 1000) / 1000}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          if (!isNaN(val)) {
+                            const next: [number, number] = [position[0], position[1]];
+                            next[i] = val * UNIT_FACTORS[displayUnit];
+                            onPositionChange(next);
+                          }
+                        }}
+                        className="w-full bg-transparent text-white font-mono text-sm focus:outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Printer</h3>
+                <PrinterPanel
+                  printer={printer}
+                  onPrinterChange={onPrinterChange}
+                  outOfBoundsNames={outOfBoundsNames}
+                  hasSelection={selectedId !== null}
+                  onScaleToFit={onScaleToFit}
+                />
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Export</h3>
+                <div className="flex gap-2">
+                  <select
+                    value={exportBinary ? 'binary' : 'ascii'}
+                    onChange={(e) => setExportBinary(e.target.value === 'binary')}
+                    className="bg-slate-800 border border-slate-600 rounded-lg px-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                  >
+                    <option value="binary">Binary STL</option>
+                    <option value="ascii">ASCII STL</option>
+                  </select>
+                  <button
+                    onClick={() => onExportModel(exportBinary)}
+                    className="flex-1 p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span className="text-xs font-medium">Export Oriented</span>
+                  </button>
+                </div>
+                <button
+                  onClick={onExportSession}
+                  className="w-full mt-2 p-2 rounded-lg flex items-center justify-center gap-2 transition-all border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500"
+                >
+                  <Download className="w-4 h-4" />
+                  <span className="text-xs font-medium">Export Session</span>
+                </button>
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Report</h3>
+                <ReportPanel
+                  snapshots={reportSnapshots}
+                  onCapture={onCaptureSnapshot}
+                  onRemove={onRemoveSnapshot}
+                  onExport={onExportReport}
+                />
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Image</h3>
+                <ImageExportPanel
+                  options={imageExportOptions}
+                  onOptionsChange={onImageExportOptionsChange}
+                  onExport={onExportImage}
+                  error={imageExportError}
+                />
+
                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Measurement</h3>
                 <div className="grid grid-cols-1 gap-2">
                   <button
@@ -177,38 +633,375 @@ const Sidebar: React.FC<SidebarProps> = ({
                     <MousePointer2 className="w-5 h-5" />
                     <span className="text-xs font-medium">Ruler Tool</span>
                   </button>
+                  {viewerMode === ViewerMode.MEASURE && (
+                    <div className="grid grid-cols-2 gap-1">
+                      {MEASUREMENT_KINDS.map(kind => (
+                        <button
+                          key={kind.id}
+                          onClick={() => onMeasureKindChange(kind.id)}
+                          className={`py-1 rounded text-xs font-medium border transition-colors ${
+                            measureKind === kind.id
+                              ? 'bg-indigo-600 border-indigo-500 text-white'
+                              : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {kind.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {viewerMode === ViewerMode.MEASURE && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-400">Snap</span>
+                      <div className="flex-1 grid grid-cols-4 gap-1">
+                        {SNAP_MODES.map(mode => (
+                          <button
+                            key={mode.id}
+                            onClick={() => onSnapModeChange(mode.id)}
+                            className={`py-1 rounded text-xs font-medium border transition-colors ${
+                              snapMode === mode.id
+                                ? 'bg-indigo-600 border-indigo-500 text-white'
+                                : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                            }`}
+                          >
+                            {mode.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <MeasurementList
+                    measurements={measurements}
+                    objects={objects}
+                    unit={displayUnit}
+                    onRename={onRenameMeasurement}
+                    onToggleVisible={onToggleMeasurement}
+                    onDelete={onDeleteMeasurement}
+                  />
+                </div>
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Overhangs</h3>
+                <button
+                  onClick={() => setViewerMode(viewerMode === ViewerMode.OVERHANG ? ViewerMode.VIEW : ViewerMode.OVERHANG)}
+                  className={`w-full p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                    viewerMode === ViewerMode.OVERHANG 
+                      ? 'bg-amber-600 border-amber-500 text-white shadow-lg' 
+                      : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <Triangle className="w-5 h-5 rotate-180" />
+                  <span className="text-xs font-medium">Show Overhangs</span>
+                </button>
+                {viewerMode === ViewerMode.OVERHANG && (
+                  <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+                    <div>
+                      <div className="flex justify-between text-xs text-slate-400 mb-1">
+                        <span>Critical angle</span>
+                        <span className="font-mono text-white">{overhangAngle}°</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="10"
+                        max="80"
+                        step="1"
+                        value={overhangAngle}
+                        onChange={(e) => onOverhangAngleChange(parseInt(e.target.value, 10))}
+                        className="w-full accent-amber-500"
+                      />
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-slate-400 text-sm">Overhang Area</span>
+                      <span className="font-mono text-amber-300 font-bold">
+                        {overhangArea !== null ? formatArea(overhangArea, displayUnit, 0) : '—'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Wall Thickness</h3>
+                <button
+                  onClick={() => setViewerMode(viewerMode === ViewerMode.THICKNESS ? ViewerMode.VIEW : ViewerMode.THICKNESS)}
+                  className={`w-full p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                    viewerMode === ViewerMode.THICKNESS 
+                      ? 'bg-red-600 border-red-500 text-white shadow-lg' 
+                      : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <Layers className="w-5 h-5" />
+                  <span className="text-xs font-medium">Show Wall Thickness</span>
+                </button>
+                {viewerMode === ViewerMode.THICKNESS && (
+                  <ThicknessPanel
+                    minThickness={minThickness}
+                    onMinThicknessChange={onMinThicknessChange}
+                    progress={thicknessProgress}
+                    onCancel={onCancelThickness}
+                    onRetry={onRetryThickness}
+                    error={thicknessError}
+                    summary={thicknessSummary}
+                    unit={displayUnit}
+                  />
+                )}
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Hollowing</h3>
+                <button
+                  onClick={() => setViewerMode(viewerMode === ViewerMode.HOLLOW ? ViewerMode.VIEW : ViewerMode.HOLLOW)}
+                  className={`w-full p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                    viewerMode === ViewerMode.HOLLOW 
+                      ? 'bg-cyan-600 border-cyan-500 text-white shadow-lg' 
+                      : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <Droplets className="w-5 h-5" />
+                  <span className="text-xs font-medium">Hollow for Resin</span>
+                </button>
+                {viewerMode === ViewerMode.HOLLOW && (
+                  <HollowPanel
+                    settings={hollowSettings}
+                    onSettingsChange={onHollowSettingsChange}
+                    progress={hollowProgress}
+                    onCancel={onCancelHollow}
+                    onRetry={onRetryHollow}
+                    error={hollowError}
+                    coarse={hollowCoarse}
+                    holeCount={drainHoleCount}
+                    onUndoHole={onUndoDrainHole}
+                    onClearHoles={onClearDrainHoles}
+                    summary={hollowSummary}
+                    printSettings={printSettings}
+                    onExport={onExportHollow}
+                    exportError={hollowExportError}
+                    unit={displayUnit}
+                  />
+                )}
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Compare Revisions</h3>
+                <button
+                  onClick={() => setViewerMode(viewerMode === ViewerMode.COMPARE ? ViewerMode.VIEW : ViewerMode.COMPARE)}
+                  className={`w-full p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                    viewerMode === ViewerMode.COMPARE 
+                      ? 'bg-emerald-600 border-emerald-500 text-white shadow-lg' 
+                      : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <GitCompare className="w-5 h-5" />
+                  <span className="text-xs font-medium">Show Deviation</span>
+                </button>
+                {viewerMode === ViewerMode.COMPARE && (
+                  <ComparePanel
+                    objects={objects}
+                    primaryId={selectedId}
+                    referenceId={compareReferenceId}
+                    onReferenceChange={onCompareReferenceChange}
+                    onLoadReference={onLoadReference}
+                    alignment={alignment}
+                    onAlignmentChange={onAlignmentChange}
+                    tolerance={deviationTolerance}
+                    onToleranceChange={onDeviationToleranceChange}
+                    progress={deviationProgress}
+                    onCancel={onCancelDeviation}
+                    onRetry={onRetryDeviation}
+                    error={deviationError}
+                    summary={deviationSummary}
+                    fitError={deviationFitError}
+                    unit={displayUnit}
+                  />
+                )}
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Cross Section</h3>
+                <button
+                  onClick={() => {
+                    if (viewerMode === ViewerMode.SECTION) {
+                      setViewerMode(ViewerMode.VIEW);
+                    } else {
+                      // Start with a horizontal cut through the middle of the scene
+                      onSectionAxis('y');
+                      setViewerMode(ViewerMode.SECTION);
+                    }
+                  }}
+                  className={`w-full p-3 rounded-lg flex flex-col items-center justify-center gap-2 transition-all border ${
+                    viewerMode === ViewerMode.SECTION 
+                      ? 'bg-amber-600 border-amber-500 text-white shadow-lg' 
+                      : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <Scissors className="w-5 h-5" />
+                  <span className="text-xs font-medium">Section View</span>
+                </button>
+                {viewerMode === ViewerMode.SECTION && (
+                  <SectionPanel
+                    plane={sectionPlane}
+                    range={sectionRange}
+                    onAxisSelect={onSectionAxis}
+                    onOffsetChange={onSectionOffset}
+                    section={section}
+                    onExport={onExportSection}
+                    unit={displayUnit}
+                  />
+                )}
+                {(viewerMode === ViewerMode.SECTION || cutParts.length > 0) && (
+                  <CutPanel
+                    showOptions={viewerMode === ViewerMode.SECTION}
+                    options={cutOptions}
+                    onOptionsChange={onCutOptionsChange}
+                    onCut={onCutModel}
+                    canCut={selectedId !== null}
+                    error={cutError}
+                    parts={cutParts}
+                    openContours={cutOpenContours}
+                    pins={cutPins}
+                    onSelectPart={onSelectObject}
+                    onDownloadPart={onDownloadPart}
+                    unit={displayUnit}
+                  />
+                )}
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Units</h3>
+                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-400 text-sm">Display</span>
+                    <div className="grid grid-cols-3 gap-1">
+                      {UNIT_OPTIONS.map(unit => (
+                        <button
+                          key={unit}
+                          onClick={() => onDisplayUnitChange(unit)}
+                          className={`px-3 py-1 rounded text-xs font-medium border transition-colors ${
+                            displayUnit === unit
+                              ? 'bg-indigo-600 border-indigo-500 text-white'
+                              : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {UNIT_LABELS[unit]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-400 text-sm">File units</span>
+                    <select
+                      value={sourceUnit}
+                      onChange={(e) => onSourceUnitChange(e.target.value as LengthUnit)}
+                      className="bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+                    >
+                      <option value="mm">Millimetres</option>
+                      <option value="cm">Centimetres</option>
+                      <option value="in">Inches</option>
+                    </select>
+                  </div>
                 </div>
 
                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Dimensions</h3>
                 <div className="grid grid-cols-1 gap-3">
                   <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
                     <span className="text-slate-400 text-sm">Width (X)</span>
-                    <span className="font-mono text-indigo-300 font-bold">{dimensions.width.toFixed(2)} mm</span>
+                    <span className="font-mono text-indigo-300 font-bold">{formatLength(dimensions.width, displayUnit)}</span>
                   </div>
                   <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
                     <span className="text-slate-400 text-sm">Height (Y)</span>
-                    <span className="font-mono text-indigo-300 font-bold">{dimensions.height.toFixed(2)} mm</span>
+                    <span className="font-mono text-indigo-300 font-bold">{formatLength(dimensions.height, displayUnit)}</span>
                   </div>
                   <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
                     <span className="text-slate-400 text-sm">Depth (Z)</span>
-                    <span className="font-mono text-indigo-300 font-bold">{dimensions.depth.toFixed(2)} mm</span>
+                    <span className="font-mono text-indigo-300 font-bold">{formatLength(dimensions.depth, displayUnit)}</span>
                   </div>
                 </div>
 
                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Volume</h3>
-                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
-                  <div className="flex justify-between items-center mb-2">
-                     <span className="text-slate-400 text-sm">Bounding Box</span>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+                    <div className="flex justify-between items-center mb-2">
+                       <span className="text-slate-400 text-sm">Mesh</span>
+                    </div>
+                     <span className="font-mono text-emerald-300 font-bold text-lg block text-right">
+                       {formatVolume(dimensions.meshVolume, displayUnit)}
+                     </span>
+                  </div>
+                  <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+                    <div className="flex justify-between items-center mb-2">
+                       <span className="text-slate-400 text-sm">Bounding Box</span>
+                    </div>
+                     <span className="font-mono text-slate-300 font-bold text-lg block text-right">
+                       {formatVolume(dimensions.volume, displayUnit)}
+                     </span>
+                  </div>
+                </div>
+                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
+                  <span className="text-slate-400 text-sm">Surface Area</span>
+                  <span className="font-mono text-indigo-300 font-bold">{formatArea(dimensions.surfaceArea, displayUnit)}</span>
+                </div>
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Mass Estimate</h3>
+                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Weight className="w-4 h-4 text-slate-400" />
+                    <select
+                      value={printSettings.materialId}
+                      onChange={(e) => {
+                        const preset = MATERIAL_PRESETS.find(m => m.id === e.target.value);
+                        onPrintSettingsChange({
+                          ...printSettings,
+                          materialId: e.target.value,
+                          density: preset?.density ?? printSettings.density,
+                        });
+                      }}
+                      className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+                    >
+                      {MATERIAL_PRESETS.map(m => (
+                        <option key={m.id} value={m.id}>{m.name} ({m.density} g/cm³)</option>
+                      ))}
+                      <option value="custom">Custom</option>
+                    </select>
                   </div>
-                   <span className="font-mono text-emerald-300 font-bold text-lg block text-right">
-                     {(dimensions.volume / 1000).toFixed(2)} cm³
-                   </span>
+                  {printSettings.materialId === 'custom' && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-400 text-xs">Density</span>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={printSettings.density}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          if (!isNaN(val) && val > 0) {
+                            onPrintSettingsChange({ ...printSettings, density: val });
+                          }
+                        }}
+                        className="w-full bg-transparent text-white font-mono text-sm focus:outline-none text-right"
+                      />
+                      <span className="text-slate-500 text-xs">g/cm³</span>
+                    </div>
+                  )}
+                  <span className="font-mono text-amber-300 font-bold text-lg block text-right">
+                    {estimateMass(dimensions.meshVolume, printSettings.density).toFixed(1)} g
+                  </span>
                 </div>
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Print Estimate</h3>
+                <PrintEstimatePanel
+                  settings={printSettings}
+                  onSettingsChange={onPrintSettingsChange}
+                  estimate={printEstimate}
+                />
+
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">Mesh Integrity</h3>
+                <MeshDiagnosticsPanel
+                  diagnostics={diagnostics}
+                  highlightedIssue={highlightedIssue}
+                  onHighlightIssue={onHighlightIssue}
+                  repairReport={repairReport}
+                  onRepairMesh={onRepairMesh}
+                  onDownloadRepaired={onDownloadRepaired}
+                />
+              </div>
+            ) : objects.length === 0 && recentSessions.length > 0 ? (
+              <div>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Recent Sessions</h3>
+                <SessionList sessions={recentSessions} onOpen={onOpenSession} onDelete={onDeleteSession} />
               </div>
             ) : (
               <div className="flex flex-col items-center justify-center h-48 text-slate-500 opacity-60">
                 <Info className="w-10 h-10 mb-2" />
-                <p className="text-sm">Load a model to see stats</p>
+                <p className="text-sm">{objects.length > 0 ? 'Select an object to see stats' : 'Load a model to see stats'}</p>
               </div>
             )}
           </div>
@@ -218,6 +1011,7 @@ const Sidebar: React.FC<SidebarProps> = ({
               {messages.length === 0 && (
                 <div className="text-center py-8 text-slate-500">
                   <p className="text-sm mb-4">Ask Gemini to analyze the visible 3D model.</p>
+                  <p className="text-xs mb-4">Front, top, side and isometric views are sent along with the measured dimensions, volume and overhangs.</p>
                   <button 
                     onClick={handleSendMessage}
                     disabled={!dimensions}
@@ -236,17 +1030,38 @@ const Sidebar: React.FC<SidebarProps> = ({
                         ? 'bg-red-900/50 border border-red-700 text-red-200'
                         : 'bg-slate-700 text-slate-200 rounded-bl-none'
                   }`}>
-                    {msg.content}
+                    {msg.streaming && !msg.content ? (
+                      <span className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
+                        <span className="text-xs text-slate-300">Gemini is thinking...</span>
+                      </span>
+                    ) : msg.role === 'ai' && !msg.isError ? (
+                      <Markdown text={msg.content} />
+                    ) : (
+                      msg.content
+                    )}
+                    {msg.isError && idx === messages.length - 1 && messages.some(m => m.role === 'user') && (
+                      <button
+                        onClick={onRetryAnalysis}
+                        className="mt-2 flex items-center gap-1 text-xs text-red-200 hover:text-white transition-colors"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Retry
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
               {isAnalyzing && (
-                 <div className="flex justify-start">
-                   <div className="bg-slate-700 p-3 rounded-lg rounded-bl-none flex items-center gap-2">
-                     <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
-                     <span className="text-xs text-slate-300">Gemini is thinking...</span>
-                   </div>
-                 </div>
+                <div className="flex justify-start">
+                  <button
+                    onClick={onCancelAnalysis}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-red-400 transition-colors"
+                  >
+                    <X className="w-3 h-3" />
+                    Stop
+                  </button>
+                </div>
               )}
               <div ref={messagesEndRef} />
             </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Loader2, X, RotateCcw } from 'lucide-react';
+import { ThinRegion, LengthUnit } from '../types';
+import { formatLength, formatArea } from '../utils/units';
+
+interface ThicknessPanelProps {
+  minThickness: number;
+  onMinThicknessChange: (value: number) => void;
+  progress: number | null;
+  onCancel: () => void;
+  onRetry: () => void;
+  error: string | null;
+  summary: { thinArea: number, regionCount: number, regions: ThinRegion[] } | null;
+  unit: LengthUnit;
+}
+
+const ThicknessPanel: React.FC<ThicknessPanelProps> = ({
+  minThickness,
+  onMinThicknessChange,
+  progress,
+  onCancel,
+  onRetry,
+  error,
+  summary,
+  unit
+}) => {
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-slate-400">Minimum wall</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0.05"
+            step="0.05"
+            value={minThickness}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) onMinThicknessChange(value);
+            }}
+            className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <span className="text-xs text-slate-500">mm</span>
+        </div>
+      </div>
+
+      <div className="flex gap-3 text-[11px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" />Thin</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-yellow-400" />Borderline</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500" />OK</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-slate-500" />Open</span>
+      </div>
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span className="flex items-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Casting rays... {Math.round(progress * 100)}%
+            </span>
+            <button onClick={onCancel} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Cancel">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-red-300">{error}</p>
+          <button onClick={onRetry} className="p-1 text-slate-400 hover:text-white transition-colors" title="Run again">
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Thin area</span>
+            <span className={`font-mono ${summary.thinArea > 0 ? 'text-red-300' : 'text-emerald-300'}`}>
+              {formatArea(summary.thinArea, unit)}
+            </span>
+          </div>
+          {summary.regions.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-[11px] text-slate-500">
+                Thinnest regions ({summary.regions.length} of {summary.regionCount})
+              </p>
+              {summary.regions.map((region, i) => (
+                <div key={i} className="flex justify-between text-xs font-mono bg-slate-800/50 rounded px-2 py-1">
+                  <span className="text-red-300">{formatLength(region.minThickness, unit)}</span>
+                  <span className="text-slate-400">{formatArea(region.area, unit)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-emerald-300">No walls below {formatLength(minThickness, unit)}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThicknessPanel;
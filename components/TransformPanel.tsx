@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Undo2, Redo2, FlipHorizontal2 } from 'lucide-react';
+import { ModelDimensions, LengthUnit } from '../types';
+import { UNIT_FACTORS, UNIT_LABELS } from '../utils/units';
+
+interface TransformPanelProps {
+  dimensions: ModelDimensions | null;
+  onRotateAxis: (axis: 'x' | 'y' | 'z', degrees: number) => void;
+  onMirror: (axis: 'x' | 'y' | 'z') => void;
+  onAxisScale: (factors: [number, number, number]) => void;
+  onScaleToDimension: (axis: 'x' | 'y' | 'z', size: number) => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  unit: LengthUnit;
+}
+
+const AXES = [
+  { id: 'x', label: 'X', dimension: 'width' },
+  { id: 'y', label: 'Y', dimension: 'height' },
+  { id: 'z', label: 'Z', dimension: 'depth' },
+] as const;
+
+const buttonClass = 'py-1 rounded text-xs font-medium border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 transition-colors disabled:opacity-50';
+const inputClass = 'w-full min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-indigo-500';
+
+const TransformPanel: React.FC<TransformPanelProps> = ({
+  dimensions,
+  onRotateAxis,
+  onMirror,
+  onAxisScale,
+  onScaleToDimension,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  unit
+}) => {
+  const [angle, setAngle] = useState(90);
+  const [factors, setFactors] = useState<[number, number, number]>([100, 100, 100]);
+  const [sizeAxis, setSizeAxis] = useState<'x' | 'y' | 'z'>('x');
+  const [size, setSize] = useState('');
+
+  const currentSize = dimensions ? dimensions[AXES.find(a => a.id === sizeAxis)!.dimension] / UNIT_FACTORS[unit] : null;
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+      <div className="grid grid-cols-2 gap-1">
+        <button onClick={onUndo} disabled={!undoLabel} className={`${buttonClass} flex items-center justify-center gap-1`} title="Ctrl+Z">
+          <Undo2 className="w-3 h-3" />
+          <span className="truncate">{undoLabel ? `Undo ${undoLabel}` : 'Undo'}</span>
+        </button>
+        <button onClick={onRedo} disabled={!redoLabel} className={`${buttonClass} flex items-center justify-center gap-1`} title="Ctrl+Shift+Z">
+          <Redo2 className="w-3 h-3" />
+          <span className="truncate">{redoLabel ? `Redo ${redoLabel}` : 'Redo'}</span>
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">Rotate by</span>
+        <div className="grid grid-cols-4 gap-1">
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              step="1"
+              value={angle}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) setAngle(value);
+              }}
+              className={inputClass}
+            />
+            <span className="text-xs text-slate-500">°</span>
+          </div>
+          {AXES.map(axis => (
+            <button key={axis.id} onClick={() => onRotateAxis(axis.id, angle)} className={buttonClass}>
+              {axis.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">Mirror</span>
+        <div className="grid grid-cols-3 gap-1">
+          {AXES.map(axis => (
+            <button key={axis.id} onClick={() => onMirror(axis.id)} className={`${buttonClass} flex items-center justify-center gap-1`}>
+              <FlipHorizontal2 className="w-3 h-3" />
+              {axis.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">Scale per axis (%)</span>
+        <div className="grid grid-cols-4 gap-1">
+          {AXES.map((axis, i) => (
+            <div key={axis.id} className="flex items-center gap-1">
+              <span className="text-xs text-slate-500">{axis.label}</span>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={factors[i]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value > 0) {
+                    const next: [number, number, number] = [factors[0], factors[1], factors[2]];
+                    next[i] = value;
+                    setFactors(next);
+                  }
+                }}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => {
+              onAxisScale(factors.map(f => f / 100) as [number, number, number]);
+              setFactors([100, 100, 100]);
+            }}
+            disabled={factors.every(f => f === 100)}
+            className={buttonClass}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">Scale to size</span>
+        <div className="grid grid-cols-4 gap-1">
+          <select
+            value={sizeAxis}
+            onChange={(e) => setSizeAxis(e.target.value as 'x' | 'y' | 'z')}
+            className="bg-slate-800 border border-slate-600 rounded px-1 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+          >
+            {AXES.map(axis => (
+              <option key={axis.id} value={axis.id}>{axis.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={size}
+            placeholder={currentSize !== null ? currentSize.toFixed(2) : ''}
+            onChange={(e) => setSize(e.target.value)}
+            className={`${inputClass} col-span-2`}
+          />
+          <button
+            onClick={() => {
+              const value = parseFloat(size);
+              if (value > 0) onScaleToDimension(sizeAxis, value * UNIT_FACTORS[unit]);
+              setSize('');
+            }}
+            disabled={!(parseFloat(size) > 0) || !dimensions}
+            className={buttonClass}
+          >
+            Apply
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500">Uniform scale so the {sizeAxis.toUpperCase()} size is this many {UNIT_LABELS[unit]}.</p>
+      </div>
+    </div>
+  );
+};
+
+export default TransformPanel;
@@ -1,97 +1,352 @@
-import React, { useRef, useEffect, useState, useLayoutEffect } from 'react';
-import { Canvas, useLoader, useThree, ThreeEvent } from '@react-three/fiber';
-import { OrbitControls, Grid, Html, Line, Sphere, Environment, ContactShadows, Bounds, useBounds } from '@react-three/drei';
-import { STLLoader } from 'three-stdlib';
+import React, { useEffect, useState, useLayoutEffect, useMemo, useRef } from 'react';
+import { Canvas, useThree, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Grid, Html, Line, Sphere, Environment, ContactShadows, Bounds, useBounds, TransformControls, OrthographicCamera } from '@react-three/drei';
 import * as THREE from 'three';
-import { ModelDimensions, ViewerMode } from '../types';
+import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { ModelDimensions, ViewerMode, MeshIssue, SceneObject, PrinterProfile, SectionPlane, CrossSection, Measurement, MeasurementKind, SnapMode, LengthUnit, CameraPose, ModelView, DrainHole, ImageExportOptions } from '../types';
+import { computeTransformedBounds } from '../utils/meshMetrics';
+import { buildIssueGeometry } from '../utils/meshDiagnostics';
+import { computeOverhangs } from '../utils/overhang';
+import { computeCrossSection, buildCapGeometry } from '../utils/crossSection';
+import { measurementKind, circleFromPoints, formatMeasurement, measurementDeltas, formatDeltas } from '../utils/measurements';
+import { snapPoint, SnapResult } from '../utils/snapping';
+import { computeThicknessColors } from '../utils/wallThickness';
+import { renderStandardViews } from '../utils/standardViews';
+import { renderImage } from '../utils/imageExport';
+import { computeDeviationColors } from '../utils/deviation';
+
+// Signed per-vertex distances to the compared revision, in mm
+interface DeviationOverlay {
+  objectId: string;
+  distances: Float32Array;
+  tolerance: number;
+  range: number;
+}
+
+// Inner shell and drain holes of the model being hollowed, in geometry units
+interface HollowOverlay {
+  objectId: string;
+  shell: THREE.BufferGeometry | null;
+  holes: DrainHole[];
+  radius: number;
+  thickness: number;
+}
 
 interface Viewer3DProps {
-  fileUrl: string | null;
-  onDimensionsCalculated: (dims: ModelDimensions) => void;
+  objects: SceneObject[];
+  selectedId: string | null;
+  onSelectObject: (id: string) => void;
+  onDimensionsCalculated: (id: string, dims: ModelDimensions) => void;
   onCanvasReady: (canvas: HTMLCanvasElement) => void;
+  onViewRendererReady: (render: () => ModelView[]) => void;
+  onImageRendererReady: (render: (options: ImageExportOptions) => HTMLCanvasElement) => void;
   viewerMode: ViewerMode;
-  meshRotation: THREE.Quaternion;
-  onRotationChange: (q: THREE.Quaternion) => void;
-  scale: number;
+  onRotationChange: (id: string, q: THREE.Quaternion) => void;
+  highlightedIssue: MeshIssue | null;
+  printer: PrinterProfile | null;
+  outOfBoundsIds: string[];
+  overhangAngle: number;
+  onOverhangCalculated: (id: string, area: number) => void;
+  wallThickness: Record<string, Float32Array>;
+  minThickness: number;
+  deviation: DeviationOverlay | null;
+  hollow: HollowOverlay | null;
+  onAddDrainHole: (id: string, hole: DrainHole) => void;
+  sectionPlane: SectionPlane;
+  onSectionPlaneChange: (plane: SectionPlane) => void;
+  onSectionCalculated: (id: string, section: CrossSection) => void;
+  measurements: Measurement[];
+  measureKind: MeasurementKind;
+  snapMode: SnapMode;
+  displayUnit: LengthUnit;
+  onAddMeasurement: (measurement: Pick<Measurement, 'objectId' | 'kind' | 'points' | 'normal'>) => void;
+  cameraPose: CameraPose | null; // Pose to restore instead of the next auto-fit
+  onCameraChange: (pose: CameraPose) => void;
 }
 
+// Points picked so far for the measurement being placed
+interface PendingMeasurement {
+  objectId: string;
+  points: [number, number, number][];
+}
+
+// Camera directions of the view presets; the viewer is Y-up with the model's front facing +Z.
+// Top is tilted a hair towards the front so the orbit controls keep their up direction.
+const VIEW_PRESETS: { id: string, label: string, direction: [number, number, number] }[] = [
+  { id: 'front', label: 'Front', direction: [0, 0, 1] },
+  { id: 'back', label: 'Back', direction: [0, 0, -1] },
+  { id: 'top', label: 'Top', direction: [0, 1, 1e-4] },
+  { id: 'left', label: 'Left', direction: [-1, 0, 0] },
+  { id: 'right', label: 'Right', direction: [1, 0, 0] },
+  { id: 'iso', label: 'Iso', direction: [1, 1, 1] },
+];
+
+// Colors of the hover preview marker by what the click will snap to
+const SNAP_COLORS: Record<SnapResult['kind'], string> = {
+  surface: '#e2e8f0',
+  vertex: '#22d3ee',
+  edge: '#a78bfa',
+  midpoint: '#f472b6',
+  center: '#facc15',
+};
+
+// Highlights the geometry belonging to a diagnostics issue. Rendered as a child
+// of the model mesh so it follows its rotation and scale.
+const IssueOverlay = ({ geometry, issue }: { geometry: THREE.BufferGeometry, issue: MeshIssue }) => {
+  const overlay = useMemo(() => buildIssueGeometry(geometry, issue), [geometry, issue]);
+
+  useEffect(() => {
+    return () => overlay.dispose();
+  }, [overlay]);
+
+  if (issue.kind === 'edges') {
+    return (
+      <lineSegments geometry={overlay} raycast={() => null} renderOrder={1}>
+        <lineBasicMaterial color="#f43f5e" depthTest={false} />
+      </lineSegments>
+    );
+  }
+
+  return (
+    <mesh geometry={overlay} raycast={() => null} renderOrder={1}>
+      <meshBasicMaterial color="#f43f5e" side={THREE.DoubleSide} transparent opacity={0.75} depthTest={false} />
+    </mesh>
+  );
+};
+
+// Filled cut face drawn where the section plane clips the model
+const SectionCap = ({ section, plane }: { section: CrossSection, plane: SectionPlane }) => {
+  const cap = useMemo(() => buildCapGeometry(section, plane), [section, plane]);
+
+  useEffect(() => {
+    return () => cap.dispose();
+  }, [cap]);
+
+  return (
+    <mesh geometry={cap} raycast={() => null}>
+      <meshStandardMaterial color="#f59e0b" roughness={0.8} side={THREE.DoubleSide} />
+    </mesh>
+  );
+};
+
+// Inner shell seen through the outer surface, with a marker reaching through the wall
+// at every drain hole. Rendered as a child of the model mesh like the issue overlay.
+const HollowPreview = ({ hollow }: { hollow: HollowOverlay }) => {
+  const { shell, holes, radius, thickness } = hollow;
+  const up = new THREE.Vector3(0, 1, 0);
+  return (
+    <>
+      {shell && (
+        <mesh geometry={shell} raycast={() => null}>
+          <meshStandardMaterial color="#22d3ee" roughness={0.6} side={THREE.DoubleSide} />
+        </mesh>
+      )}
+      {holes.map((hole, i) => {
+        const normal = new THREE.Vector3(...hole.normal).normalize();
+        const center = new THREE.Vector3(...hole.point).addScaledVector(normal, -thickness / 2);
+        return (
+          <mesh
+            key={i}
+            position={center}
+            quaternion={new THREE.Quaternion().setFromUnitVectors(up, normal)}
+            raycast={() => null}
+            renderOrder={1}
+          >
+            <cylinderGeometry args={[radius, radius, thickness * 1.5, 24]} />
+            <meshBasicMaterial color="#ef4444" depthTest={false} transparent opacity={0.9} />
+          </mesh>
+        );
+      })}
+    </>
+  );
+};
+
 const STLModel = ({ 
-  url, 
+  object, 
+  isSelected,
+  isOutOfBounds,
   onDimensionsCalculated, 
   onClick,
-  meshRotation,
-  scale
+  onPointerMove,
+  onPointerOut,
+  highlightedIssue,
+  overhangAngle,
+  onOverhangCalculated,
+  wallThickness,
+  minThickness,
+  deviation,
+  hollow,
+  sectionPlane,
+  onSectionCalculated,
+  measurements,
+  pendingPoints,
+  hoverSnap,
+  displayUnit
 }: { 
-  url: string, 
-  onDimensionsCalculated: (dims: ModelDimensions) => void,
-  onClick?: (e: ThreeEvent<MouseEvent>) => void,
-  meshRotation: THREE.Quaternion,
-  scale: number
+  object: SceneObject, 
+  isSelected: boolean,
+  isOutOfBounds: boolean,
+  onDimensionsCalculated: (id: string, dims: ModelDimensions) => void,
+  onClick?: (e: ThreeEvent<MouseEvent>, object: SceneObject) => void,
+  onPointerMove?: (e: ThreeEvent<PointerEvent>, object: SceneObject) => void,
+  onPointerOut?: () => void,
+  highlightedIssue: MeshIssue | null,
+  overhangAngle: number | null,
+  onOverhangCalculated: (id: string, area: number) => void,
+  wallThickness: Float32Array | null,
+  minThickness: number,
+  deviation: DeviationOverlay | null,
+  hollow: HollowOverlay | null,
+  sectionPlane: SectionPlane | null,
+  onSectionCalculated: (id: string, section: CrossSection) => void,
+  measurements: Measurement[],
+  pendingPoints: [number, number, number][],
+  hoverSnap: SnapResult | null,
+  displayUnit: LengthUnit
 }) => {
-  const geometry = useLoader(STLLoader, url);
-  const meshRef = useRef<THREE.Mesh>(null);
-  const [verticalOffset, setVerticalOffset] = useState(0);
+  const { id, geometry, metrics, rotation: meshRotation, scale } = object;
+  const [offset, setOffset] = useState<[number, number, number]>([0, 0, 0]);
 
   useLayoutEffect(() => {
-    if (meshRef.current) {
-      // 1. Center the geometry itself (mutates geometry)
-      // This ensures the local origin is at the center of mass
-      meshRef.current.geometry.center();
-      
-      // 2. Calculate the bounding box of the geometry *after* rotation AND scale are applied
-      // We clone to avoid mutating the actual render geometry with the rotation/scale
-      const tempGeo = meshRef.current.geometry.clone();
-      
-      // Apply rotation first
-      tempGeo.applyQuaternion(meshRotation);
-      
-      // Apply scale
-      tempGeo.scale(scale, scale, scale);
-      
-      tempGeo.computeBoundingBox();
-      const box = tempGeo.boundingBox;
-      
-      if (box) {
-          // 3. Calculate dimensions for UI
-          const size = new THREE.Vector3();
-          box.getSize(size);
-          const volume = size.x * size.y * size.z;
-          onDimensionsCalculated({
-              width: size.x,
-              height: size.y,
-              depth: size.z,
-              volume: volume
-          });
-
-          // 4. Calculate Vertical Offset
-          // The object is centered at 0,0,0 local. 
-          // The lowest point in world space (relative to 0) is box.min.y
-          // We want that lowest point to be at Y=0.
-          // So we shift the whole group UP by distance |min.y|
-          setVerticalOffset(-box.min.y);
-      }
-    }
-  }, [url, meshRotation, scale, onDimensionsCalculated, geometry]);
+    // 1. Bounds after rotation and scale; the geometry was centered when it was loaded
+    const box = computeTransformedBounds(geometry, meshRotation, scale);
+    const size = box.getSize(new THREE.Vector3());
+
+    // 2. Volume and area scale with the cube and square of the uniform scale
+    onDimensionsCalculated(id, {
+      width: size.x,
+      height: size.y,
+      depth: size.z,
+      volume: size.x * size.y * size.z,
+      meshVolume: Math.abs(metrics.signedVolume) * scale ** 3,
+      surfaceArea: metrics.surfaceArea * scale ** 2
+    });
+
+    // 3. Lift the lowest point onto the floor (Y=0) and center the footprint on the object's position
+    const center = box.getCenter(new THREE.Vector3());
+    setOffset([-center.x, -box.min.y, -center.z]);
+  }, [id, geometry, metrics, meshRotation, scale, onDimensionsCalculated]);
+
+  // Cross-section of the placed model; the matrix mirrors the group/mesh transforms below
+  const section = useMemo(() => {
+    if (!sectionPlane || !object.visible) return null;
+    const matrix = new THREE.Matrix4().compose(
+      new THREE.Vector3(object.position[0] + offset[0], offset[1], object.position[1] + offset[2]),
+      meshRotation,
+      new THREE.Vector3(scale, scale, scale)
+    );
+    return computeCrossSection(geometry, matrix, sectionPlane);
+  }, [geometry, meshRotation, scale, offset, object.position, object.visible, sectionPlane]);
+
+  useEffect(() => {
+    if (section) onSectionCalculated(id, section);
+  }, [id, section, onSectionCalculated]);
+
+  // Keep everything on the far side of the plane's normal
+  const clippingPlanes = useMemo(() => {
+    if (!sectionPlane) return [];
+    const normal = new THREE.Vector3(...sectionPlane.normal).normalize();
+    return [new THREE.Plane(normal.negate(), sectionPlane.offset)];
+  }, [sectionPlane]);
+
+  // Overhang coloring follows rotation and scale live while the mode is active
+  useEffect(() => {
+    if (overhangAngle === null) return;
+    const { colors, area } = computeOverhangs(geometry, meshRotation, scale, overhangAngle);
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    onOverhangCalculated(id, area);
+    return () => {
+      geometry.deleteAttribute('color');
+    };
+  }, [id, geometry, meshRotation, scale, overhangAngle, onOverhangCalculated]);
+
+  // Wall thickness heatmap; the per-face values are in geometry units
+  useEffect(() => {
+    if (!wallThickness) return;
+    geometry.setAttribute('color', new THREE.BufferAttribute(computeThicknessColors(geometry, wallThickness, scale, minThickness), 3));
+    return () => {
+      geometry.deleteAttribute('color');
+    };
+  }, [geometry, wallThickness, scale, minThickness]);
+
+  // Deviation heatmap against the compared revision
+  useEffect(() => {
+    if (!deviation) return;
+    const { distances, tolerance, range } = deviation;
+    geometry.setAttribute('color', new THREE.BufferAttribute(computeDeviationColors(distances, tolerance, range), 3));
+    return () => {
+      geometry.deleteAttribute('color');
+    };
+  }, [geometry, deviation]);
+
+  const showVertexColors = overhangAngle !== null || wallThickness !== null || deviation !== null;
 
   return (
-    <group position={[0, verticalOffset, 0]}>
-      <mesh 
-        ref={meshRef} 
-        geometry={geometry} 
-        quaternion={meshRotation}
-        scale={[scale, scale, scale]}
-        castShadow 
-        receiveShadow
-        onClick={onClick}
-      >
-        <meshStandardMaterial 
-          color="#6366f1" 
-          roughness={0.5} 
-          metalness={0.2} 
-          side={THREE.DoubleSide}
-        />
-      </mesh>
-    </group>
+    <>
+      <group position={[object.position[0] + offset[0], offset[1], object.position[1] + offset[2]]} visible={object.visible}>
+        <mesh 
+          geometry={geometry} 
+          quaternion={meshRotation}
+          scale={[scale, scale, scale]}
+          castShadow 
+          receiveShadow
+          userData={{ sceneObjectId: id }}
+          onClick={onClick && object.visible ? (e) => onClick(e, object) : undefined}
+          onPointerMove={onPointerMove && object.visible ? (e) => onPointerMove(e, object) : undefined}
+          onPointerOut={onPointerOut}
+        >
+          <meshStandardMaterial 
+            key={`${showVertexColors ? 'colors' : 'solid'}${hollow ? '_see-through' : ''}`}
+            color={showVertexColors ? "#ffffff" : isSelected ? "#6366f1" : "#94a3b8"} 
+            vertexColors={showVertexColors}
+            emissive={isOutOfBounds ? "#991b1b" : "#000000"}
+            roughness={0.5} 
+            metalness={0.2} 
+            side={THREE.DoubleSide}
+            clippingPlanes={clippingPlanes}
+            transparent={hollow !== null}
+            opacity={hollow ? 0.35 : 1}
+            depthWrite={hollow === null}
+          />
+          {hollow && <HollowPreview hollow={hollow} />}
+          {highlightedIssue && <IssueOverlay geometry={geometry} issue={highlightedIssue} />}
+          {(measurements.length > 0 || pendingPoints.length > 0 || hoverSnap) && (
+            <MeasurementOverlay
+              measurements={measurements}
+              pendingPoints={pendingPoints}
+              hoverSnap={hoverSnap}
+              rotation={meshRotation}
+              scale={scale}
+              unit={displayUnit}
+            />
+          )}
+        </mesh>
+      </group>
+      {section && sectionPlane && section.loops.length > 0 && <SectionCap section={section} plane={sectionPlane} />}
+    </>
+  );
+};
+
+// Rotation gizmo on the selected model; the result is committed when a drag ends
+const RotateGizmo = ({ objectId, onRotationChange }: { objectId: string, onRotationChange: (id: string, q: THREE.Quaternion) => void }) => {
+  const scene = useThree(state => state.scene);
+  const [mesh, setMesh] = useState<THREE.Object3D | null>(null);
+
+  useEffect(() => {
+    let found: THREE.Object3D | null = null;
+    scene.traverse(child => {
+      if (child.userData.sceneObjectId === objectId) found = child;
+    });
+    setMesh(found);
+  }, [scene, objectId]);
+
+  if (!mesh) return null;
+  return (
+    <TransformControls
+      object={mesh}
+      mode="rotate"
+      onMouseUp={() => onRotationChange(objectId, mesh.quaternion.clone())}
+    />
   );
 };
 
@@ -99,58 +354,239 @@ const CanvasCapture = ({ onCanvasReady }: { onCanvasReady: (canvas: HTMLCanvasEl
   const { gl } = useThree();
   useEffect(() => {
     onCanvasReady(gl.domElement);
+    // Per-material clipping planes are used by the section tool
+    gl.localClippingEnabled = true;
   }, [gl, onCanvasReady]);
   return null;
 };
 
+// Hands out a function rendering the standard views of the current scene
+const ViewRenderer = ({ onViewRendererReady }: { onViewRendererReady: (render: () => ModelView[]) => void }) => {
+  const { gl, scene, camera } = useThree();
+  useEffect(() => {
+    onViewRendererReady(() => renderStandardViews(gl, scene, camera));
+  }, [gl, scene, camera, onViewRendererReady]);
+  return null;
+};
+
+// Hands out a function rendering the current view at any resolution
+const ImageRenderer = ({ unit, onImageRendererReady }: { unit: LengthUnit, onImageRendererReady: (render: (options: ImageExportOptions) => HTMLCanvasElement) => void }) => {
+  const { gl, scene, camera } = useThree();
+  useEffect(() => {
+    onImageRendererReady(options => renderImage(gl, scene, camera, options, unit));
+  }, [gl, scene, camera, unit, onImageRendererReady]);
+  return null;
+};
+
+// Swaps the default camera between perspective and orthographic. The new camera takes
+// over the old one's position and target, with the same visible height at the target.
+const ProjectionCamera = ({ orthographic }: { orthographic: boolean }) => {
+  const { camera, controls, size } = useThree();
+  const pending = useRef<{ position: THREE.Vector3, target: THREE.Vector3, height: number } | null>(null);
+
+  // Read while the old camera is still the default
+  const isOrthographic = (camera as THREE.OrthographicCamera).isOrthographicCamera === true;
+  if (isOrthographic !== orthographic && !pending.current) {
+    const target = (controls as unknown as OrbitControlsImpl | null)?.target.clone() ?? new THREE.Vector3();
+    const height = isOrthographic
+      ? size.height / (camera as THREE.OrthographicCamera).zoom
+      : 2 * camera.position.distanceTo(target) * Math.tan(THREE.MathUtils.degToRad((camera as THREE.PerspectiveCamera).fov / 2));
+    pending.current = { position: camera.position.clone(), target, height };
+  }
+
+  useLayoutEffect(() => {
+    const orbit = controls as unknown as OrbitControlsImpl | null;
+    const pose = pending.current;
+    if (!pose || !orbit || orbit.object !== camera) return;
+    const direction = pose.position.clone().sub(pose.target).normalize();
+    if (camera instanceof THREE.OrthographicCamera) {
+      camera.position.copy(pose.position);
+      camera.zoom = size.height / pose.height;
+    } else if (camera instanceof THREE.PerspectiveCamera) {
+      // The restored camera may have missed resizes while it was not the default
+      camera.aspect = size.width / size.height;
+      const distance = pose.height / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2)));
+      camera.position.copy(pose.target).addScaledVector(direction, distance);
+    }
+    camera.updateProjectionMatrix();
+    orbit.target.copy(pose.target);
+    orbit.update();
+    pending.current = null;
+  }, [camera, controls, size]);
+
+  return orthographic ? <OrthographicCamera makeDefault near={0.001} far={10000} /> : null;
+};
+
+// Moves the camera to a preset direction around the visible models when requested
+const ViewPresetControl = ({ request }: { request: { direction: [number, number, number], time: number } | null }) => {
+  const bounds = useBounds();
+  const camera = useThree(state => state.camera);
+  // Only a new request moves the camera, not a camera swap
+  const handled = useRef<typeof request>(null);
+  useEffect(() => {
+    if (!request || request === handled.current) return;
+    handled.current = request;
+    const { center, distance } = bounds.refresh().getSize();
+    const position = center.clone().addScaledVector(new THREE.Vector3(...request.direction).normalize(), distance);
+    const api = bounds.moveTo(position).lookAt({ target: center });
+    // Orthographic views are framed by zoom instead of distance
+    if ((camera as THREE.OrthographicCamera).isOrthographicCamera) api.fit();
+  }, [bounds, camera, request]);
+  return null;
+};
+
 // AutoFit now accepts a trigger to re-run fitting when rotation/scale changes
-const AutoFit = ({ trigger }: { trigger?: any }) => {
+const AutoFit = ({ trigger, pose }: { trigger?: any, pose: CameraPose | null }) => {
     const bounds = useBounds();
+    // A restored pose replaces the fit once, later changes fit as usual
+    const pendingPose = useRef<CameraPose | null>(null);
+    useEffect(() => {
+        pendingPose.current = pose;
+    }, [pose]);
     useEffect(() => {
         // Debounce slightly to allow layout to settle
         const timeout = setTimeout(() => {
-           bounds.refresh().clip().fit();
+           bounds.refresh().clip();
+           if (pendingPose.current) {
+             bounds.moveTo(pendingPose.current.position).lookAt({ target: pendingPose.current.target });
+             pendingPose.current = null;
+           } else {
+             bounds.fit();
+           }
         }, 50);
         return () => clearTimeout(timeout);
-    }, [bounds, trigger]);
+    }, [bounds, trigger, pose]);
     return null;
 };
 
-const MeasurementTool = ({ points }: { points: THREE.Vector3[] }) => {
-  if (points.length === 0) return null;
+// Reports the camera pose whenever the user finishes orbiting, panning or zooming
+const CameraTracker = ({ onCameraChange }: { onCameraChange: (pose: CameraPose) => void }) => {
+  const { camera, controls } = useThree();
+  useEffect(() => {
+    const orbit = controls as unknown as OrbitControlsImpl | null;
+    if (!orbit) return;
+    const handleEnd = () => onCameraChange({
+      position: camera.position.toArray() as [number, number, number],
+      target: orbit.target.toArray() as [number, number, number],
+    });
+    orbit.addEventListener('end', handleEnd);
+    return () => orbit.removeEventListener('end', handleEnd);
+  }, [camera, controls, onCameraChange]);
+  return null;
+};
+
+const MeasurementLabel = ({ position, text, detail }: { position: THREE.Vector3, text: string, detail?: string }) => (
+  <Html position={position}>
+    <div className="bg-slate-900/90 text-white px-2 py-1 rounded border border-indigo-500 shadow-xl text-xs font-mono whitespace-nowrap pointer-events-none select-none backdrop-blur-md">
+      {text}
+      {detail && <div className="text-[10px] text-slate-400">{detail}</div>}
+    </div>
+  </Html>
+);
+
+// Saved measurements and picked points of one object. Rendered as a child of the
+// model mesh, like IssueOverlay, so the stored geometry coordinates follow its transform.
+const MeasurementOverlay = ({
+  measurements,
+  pendingPoints,
+  hoverSnap,
+  rotation,
+  scale,
+  unit
+}: {
+  measurements: Measurement[],
+  pendingPoints: [number, number, number][],
+  hoverSnap: SnapResult | null,
+  rotation: THREE.Quaternion,
+  scale: number,
+  unit: LengthUnit
+}) => {
+  // Markers keep a constant size in mm regardless of the model scale
+  const markerSize = 0.5 / scale;
+
+  const marker = (point: THREE.Vector3, color: string, key: React.Key) => (
+    <Sphere key={key} position={point} args={[markerSize, 16, 16]} raycast={() => null}>
+      <meshBasicMaterial color={color} depthTest={false} />
+    </Sphere>
+  );
 
   return (
     <group>
-      {points.map((p, i) => (
-        <Sphere key={i} position={p} args={[0.5, 16, 16]}>
-           <meshBasicMaterial color={i === 0 ? "#10b981" : "#ef4444"} depthTest={false} />
-        </Sphere>
-      ))}
-      {points.length === 2 && (
-        <>
-          <Line 
-            points={points} 
-            color="white" 
-            lineWidth={2} 
-            dashed={false}
-          />
-          <Html position={points[0].clone().lerp(points[1], 0.5)}>
-             <div className="bg-slate-900/90 text-white px-2 py-1 rounded border border-indigo-500 shadow-xl text-xs font-mono whitespace-nowrap pointer-events-none select-none backdrop-blur-md">
-               {points[0].distanceTo(points[1]).toFixed(2)} mm
-             </div>
-          </Html>
-        </>
-      )}
+      {pendingPoints.map((p, i) => marker(new THREE.Vector3(...p), i === 0 ? "#10b981" : "#ef4444", `pending-${i}`))}
+      {hoverSnap && marker(new THREE.Vector3(...hoverSnap.point), SNAP_COLORS[hoverSnap.kind], 'hover')}
+      {measurements.map(measurement => {
+        const points = measurement.points.map(p => new THREE.Vector3(...p));
+        const label = `${measurement.name}: ${formatMeasurement(measurement, scale, unit)}`;
+
+        if (measurement.kind === 'radius') {
+          const circle = circleFromPoints(points[0], points[1], points[2]);
+          if (!circle) return null;
+          const ring = new THREE.EllipseCurve(0, 0, circle.radius, circle.radius, 0, Math.PI * 2).getPoints(64);
+          const basis = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), circle.normal);
+          return (
+            <group key={measurement.id}>
+              {points.map((p, i) => marker(p, "#f59e0b", i))}
+              {marker(circle.center, "#ffffff", 'center')}
+              <Line
+                points={ring.map(p => new THREE.Vector3(p.x, p.y, 0).applyQuaternion(basis).add(circle.center))}
+                color="#f59e0b"
+                lineWidth={2}
+                raycast={() => null}
+              />
+              <MeasurementLabel position={circle.center} text={label} />
+            </group>
+          );
+        }
+
+        if (measurement.kind === 'pointToFace') {
+          if (!measurement.normal) return null;
+          const normal = new THREE.Vector3(...measurement.normal).normalize();
+          // Foot of the perpendicular from the point onto the picked face's plane
+          const foot = points[0].clone().addScaledVector(normal, -points[0].clone().sub(points[1]).dot(normal));
+          return (
+            <group key={measurement.id}>
+              {marker(points[0], "#10b981", 'point')}
+              {marker(foot, "#ef4444", 'foot')}
+              <Line points={[points[0], foot]} color="white" lineWidth={2} raycast={() => null} />
+              <MeasurementLabel position={points[0].clone().lerp(foot, 0.5)} text={label} />
+            </group>
+          );
+        }
+
+        // Distance and angle are polylines through the picked points
+        const deltas = measurementDeltas(measurement, rotation, scale);
+        return (
+          <group key={measurement.id}>
+            {points.map((p, i) => marker(p, i === 0 ? "#10b981" : "#ef4444", i))}
+            <Line points={points} color="white" lineWidth={2} raycast={() => null} />
+            <MeasurementLabel
+              position={measurement.kind === 'angle' ? points[1] : points[0].clone().lerp(points[1], 0.5)}
+              text={label}
+              detail={deltas ? formatDeltas(deltas, unit) : undefined}
+            />
+          </group>
+        );
+      })}
     </group>
   );
 };
 
-const Floor = () => {
+// Printer bed and wireframe build volume, centered on the origin
+const BuildVolume = ({ printer, isOutOfBounds }: { printer: PrinterProfile, isOutOfBounds: boolean }) => {
+  // Printer Y runs along the viewer's Z axis, printer Z is up
+  const edges = useMemo(
+    () => new THREE.EdgesGeometry(new THREE.BoxGeometry(printer.width, printer.height, printer.depth)),
+    [printer.width, printer.height, printer.depth]
+  );
+
+  useEffect(() => {
+    return () => edges.dispose();
+  }, [edges]);
+
   return (
     <group>
-      {/* Floor is slightly below 0 to avoid z-fighting with object bottom */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} receiveShadow>
-        <circleGeometry args={[500, 64]} />
+        <planeGeometry args={[printer.width, printer.depth]} />
         <meshStandardMaterial 
             color="#1e293b"
             roughness={0.6}
@@ -158,6 +594,30 @@ const Floor = () => {
             side={THREE.DoubleSide} 
         />
       </mesh>
+      <lineSegments geometry={edges} position={[0, printer.height / 2, 0]} raycast={() => null}>
+        <lineBasicMaterial color={isOutOfBounds ? "#ef4444" : "#64748b"} transparent opacity={0.8} />
+      </lineSegments>
+    </group>
+  );
+};
+
+const Floor = ({ printer, isOutOfBounds }: { printer: PrinterProfile | null, isOutOfBounds: boolean }) => {
+  return (
+    <group userData={{ background: true }}>
+      {/* Floor is slightly below 0 to avoid z-fighting with object bottom */}
+      {printer ? (
+        <BuildVolume printer={printer} isOutOfBounds={isOutOfBounds} />
+      ) : (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} receiveShadow>
+          <circleGeometry args={[500, 64]} />
+          <meshStandardMaterial 
+              color="#1e293b"
+              roughness={0.6}
+              metalness={0.4}
+              side={THREE.DoubleSide} 
+          />
+        </mesh>
+      )}
       <Grid 
         infiniteGrid 
         fadeDistance={300} 
@@ -181,29 +641,100 @@ const Floor = () => {
 };
 
 const Viewer3D: React.FC<Viewer3DProps> = ({ 
-  fileUrl, 
+  objects, 
+  selectedId,
+  onSelectObject,
   onDimensionsCalculated, 
   onCanvasReady,
+  onViewRendererReady,
+  onImageRendererReady,
   viewerMode,
-  meshRotation,
   onRotationChange,
-  scale
+  highlightedIssue,
+  printer,
+  outOfBoundsIds,
+  overhangAngle,
+  onOverhangCalculated,
+  wallThickness,
+  minThickness,
+  deviation,
+  hollow,
+  onAddDrainHole,
+  sectionPlane,
+  onSectionPlaneChange,
+  onSectionCalculated,
+  measurements,
+  measureKind,
+  snapMode,
+  displayUnit,
+  onAddMeasurement,
+  cameraPose,
+  onCameraChange
 }) => {
-  const [measurePoints, setMeasurePoints] = useState<THREE.Vector3[]>([]);
+  const [pending, setPending] = useState<PendingMeasurement | null>(null);
+  const [hoverSnap, setHoverSnap] = useState<{ objectId: string, result: SnapResult } | null>(null);
+  const [orthographic, setOrthographic] = useState(false);
+  const [viewRequest, setViewRequest] = useState<{ direction: [number, number, number], time: number } | null>(null);
 
   useEffect(() => {
-    setMeasurePoints([]);
-  }, [fileUrl, viewerMode, meshRotation, scale]);
+    setPending(null);
+    setHoverSnap(null);
+  }, [viewerMode, measureKind, snapMode]);
 
-  const handleMeshClick = (e: ThreeEvent<MouseEvent>) => {
+  // Geometry coordinates of a ruler pick, snapped to a feature if enabled
+  const pickMeasurePoint = (e: ThreeEvent<MouseEvent | PointerEvent>, object: SceneObject) => {
+    const local = e.object.worldToLocal(e.point.clone());
+    return snapPoint(object.geometry, e.faceIndex ?? 0, local, e.faceIndex === undefined ? 'none' : snapMode);
+  };
+
+  const handleMeshHover = (e: ThreeEvent<PointerEvent>, object: SceneObject) => {
+    e.stopPropagation();
+    const result = pickMeasurePoint(e, object);
+    setHoverSnap(prev =>
+      prev?.objectId === object.id && prev.result.point.every((v, i) => v === result.point[i])
+        ? prev
+        : { objectId: object.id, result }
+    );
+  };
+
+  const handleMeshClick = (e: ThreeEvent<MouseEvent>, object: SceneObject) => {
+    // Raycasts ignore clipping, so hits on the cut-away part of the model are skipped
+    if (viewerMode === ViewerMode.SECTION) {
+      const normal = new THREE.Vector3(...sectionPlane.normal).normalize();
+      if (normal.dot(e.point) > sectionPlane.offset) return;
+    }
     e.stopPropagation();
+    const meshRotation = object.rotation;
+
+    // Any click also makes the object the target of the Sidebar tools
+    onSelectObject(object.id);
 
     if (viewerMode === ViewerMode.MEASURE) {
-      setMeasurePoints(prev => {
-        if (prev.length >= 2) return [e.point];
-        return [...prev, e.point];
+      // Picks are stored in geometry coordinates; a click on another object starts over
+      const { point } = pickMeasurePoint(e, object);
+      const points = pending?.objectId === object.id ? [...pending.points, point] : [point];
+      // The face of a point-to-face measurement is the triangle that was hit, not a snapped feature
+      if (measureKind === 'pointToFace' && points.length === 2) {
+        const local = e.object.worldToLocal(e.point.clone());
+        points[1] = [local.x, local.y, local.z];
+      }
+
+      if (points.length < measurementKind(measureKind).pointCount) {
+        setPending({ objectId: object.id, points });
+        return;
+      }
+      if (measureKind === 'pointToFace' && !e.face) return;
+      setPending(null);
+      onAddMeasurement({
+        objectId: object.id,
+        kind: measureKind,
+        points,
+        normal: measureKind === 'pointToFace' && e.face
+          ? [e.face.normal.x, e.face.normal.y, e.face.normal.z]
+          : undefined
       });
-    } else if (viewerMode === ViewerMode.ALIGN) {
+    } else if (viewerMode === ViewerMode.ALIGN || viewerMode === ViewerMode.OVERHANG) {
+        // Overhang mode keeps Drop Face active so orientations can be compared live
         if (!e.face) return;
         const localNormal = e.face.normal.clone();
         const worldNormal = localNormal.applyQuaternion(meshRotation).normalize();
@@ -212,28 +743,46 @@ const Viewer3D: React.FC<Viewer3DProps> = ({
         alignQuat.setFromUnitVectors(worldNormal, targetDir);
         const newRotation = alignQuat.multiply(meshRotation);
         
-        onRotationChange(newRotation);
+        onRotationChange(object.id, newRotation);
+    } else if (viewerMode === ViewerMode.SECTION) {
+        // Cut parallel to the clicked face, through the clicked point
+        if (!e.face) return;
+        const worldNormal = e.face.normal.clone().applyQuaternion(meshRotation).normalize();
+        onSectionPlaneChange({
+          normal: [worldNormal.x, worldNormal.y, worldNormal.z],
+          offset: worldNormal.dot(e.point)
+        });
+    } else if (viewerMode === ViewerMode.HOLLOW) {
+        // Drain holes are drilled along the clicked face's normal, in geometry coordinates
+        if (!e.face) return;
+        const local = e.object.worldToLocal(e.point.clone());
+        onAddDrainHole(object.id, {
+          point: [local.x, local.y, local.z],
+          normal: [e.face.normal.x, e.face.normal.y, e.face.normal.z]
+        });
     }
   };
 
-  if (!fileUrl) {
+  if (objects.length === 0) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-slate-900 text-slate-500">
         <div className="text-center">
           <p className="text-lg font-medium">No model loaded</p>
-          <p className="text-sm">Upload an .stl file to view</p>
+          <p className="text-sm">Upload an STL, OBJ, 3MF, PLY or glTF file to view</p>
         </div>
       </div>
     );
   }
 
   // Create a unique key for trigger to help with updates
-  const triggerKey = meshRotation.toArray().join('_') + '_' + scale;
+  const triggerKey = objects
+    .map(o => `${o.id}_${o.rotation.toArray().join('_')}_${o.scale}_${o.position.join('_')}`)
+    .join('|');
 
   return (
     <div className={`w-full h-full relative bg-slate-900 ${
-        viewerMode === ViewerMode.MEASURE ? 'cursor-crosshair' : 
-        viewerMode === ViewerMode.ALIGN ? 'cursor-alias' : 'cursor-default'
+        viewerMode === ViewerMode.MEASURE || viewerMode === ViewerMode.HOLLOW ? 'cursor-crosshair' : 
+        viewerMode === ViewerMode.ALIGN || viewerMode === ViewerMode.OVERHANG ? 'cursor-alias' : 'cursor-default'
     }`}>
       <Canvas
         shadows
@@ -243,6 +792,9 @@ const Viewer3D: React.FC<Viewer3DProps> = ({
         gl={{ preserveDrawingBuffer: true }}
       >
         <CanvasCapture onCanvasReady={onCanvasReady} />
+        <ViewRenderer onViewRendererReady={onViewRendererReady} />
+        <ImageRenderer unit={displayUnit} onImageRendererReady={onImageRendererReady} />
+        <ProjectionCamera orthographic={orthographic} />
         <color attach="background" args={['#0f172a']} />
         <fog attach="fog" args={['#0f172a', 150, 1000]} />
         
@@ -255,23 +807,66 @@ const Viewer3D: React.FC<Viewer3DProps> = ({
         />
         <Environment preset="city" />
 
-        <Bounds key={fileUrl} observe={false} fit clip margin={1.2}>
+        <Bounds observe={false} fit clip margin={1.2}>
            {/* Manual floor alignment is handled inside STLModel */}
-           <STLModel 
-             url={fileUrl} 
-             onDimensionsCalculated={onDimensionsCalculated} 
-             onClick={handleMeshClick}
-             meshRotation={meshRotation}
-             scale={scale}
-           />
-           {/* Re-fit camera when rotation or scale changes */}
-           <AutoFit trigger={triggerKey} />
+           {objects.map(object => (
+             <STLModel 
+               key={object.id}
+               object={object} 
+               isSelected={object.id === selectedId}
+               isOutOfBounds={outOfBoundsIds.includes(object.id)}
+               onDimensionsCalculated={onDimensionsCalculated} 
+               onClick={handleMeshClick}
+               onPointerMove={viewerMode === ViewerMode.MEASURE ? handleMeshHover : undefined}
+               onPointerOut={viewerMode === ViewerMode.MEASURE ? () => setHoverSnap(null) : undefined}
+               highlightedIssue={object.id === selectedId ? highlightedIssue : null}
+               overhangAngle={viewerMode === ViewerMode.OVERHANG ? overhangAngle : null}
+               onOverhangCalculated={onOverhangCalculated}
+               wallThickness={viewerMode === ViewerMode.THICKNESS ? wallThickness[object.id] ?? null : null}
+               minThickness={minThickness}
+               deviation={viewerMode === ViewerMode.COMPARE && deviation?.objectId === object.id ? deviation : null}
+               hollow={viewerMode === ViewerMode.HOLLOW && hollow?.objectId === object.id ? hollow : null}
+               sectionPlane={viewerMode === ViewerMode.SECTION ? sectionPlane : null}
+               onSectionCalculated={onSectionCalculated}
+               measurements={measurements.filter(m => m.objectId === object.id && m.visible)}
+               pendingPoints={pending?.objectId === object.id ? pending.points : []}
+               hoverSnap={hoverSnap?.objectId === object.id ? hoverSnap.result : null}
+               displayUnit={displayUnit}
+             />
+           ))}
+           {/* Re-fit camera when objects are added or transformed */}
+           <AutoFit trigger={triggerKey} pose={cameraPose} />
+           <ViewPresetControl request={viewRequest} />
         </Bounds>
         
-        <MeasurementTool points={measurePoints} />
-        <Floor />
+        <Floor printer={printer} isOutOfBounds={outOfBoundsIds.length > 0} />
+        {viewerMode === ViewerMode.ROTATE && selectedId && (
+          <RotateGizmo objectId={selectedId} onRotationChange={onRotationChange} />
+        )}
         <OrbitControls makeDefault minPolarAngle={0} maxPolarAngle={Math.PI / 2} />
+        <CameraTracker onCameraChange={onCameraChange} />
       </Canvas>
+
+      <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+        <div className="grid grid-cols-3 gap-1 bg-slate-800/80 p-1 rounded-lg border border-slate-700 backdrop-blur-md">
+          {VIEW_PRESETS.map(({ id, label, direction }) => (
+            <button
+              key={id}
+              onClick={() => setViewRequest({ direction, time: Date.now() })}
+              className="px-2 py-1 rounded text-[11px] font-medium text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setOrthographic(prev => !prev)}
+          className="px-3 py-1 rounded-lg text-[11px] font-medium bg-slate-800/80 border border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-white backdrop-blur-md transition-colors"
+          title="Switch between perspective and orthographic projection"
+        >
+          {orthographic ? 'Orthographic' : 'Perspective'}
+        </button>
+      </div>
     </div>
   );
 };
@@ -1,36 +1,117 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Content, Part } from "@google/genai";
+import { ModelView, GeometryFacts, AnalysisMessage } from "../types";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const analyzeModelImage = async (base64Image: string, promptText: string): Promise<string> => {
+const MODEL = 'gemini-3-flash-preview';
+
+const SYSTEM_INSTRUCTION = "You are an expert 3D printing engineer and industrial designer. You are given orthographic front, top and side views and an isometric view of a 3D model, together with measured geometry. Base sizes, volumes and areas on the measured values rather than estimating them from the images. Provide concise, technical insights about geometry, potential 3D printing challenges (overhangs, bed adhesion), and guess what the object is. Format answers in Markdown.";
+
+// Conversation per inspected object. The history is text only; views go with the
+// current question alone. `contextKey` identifies the geometry facts last sent, so
+// they are only repeated after the model changed.
+interface ChatState {
+  history: Content[];
+  contextKey: string | null;
+}
+
+const chats = new Map<string, ChatState>();
+
+// Plain-text block of measured values; numbers are rounded so the prompt stays short
+const describeFacts = (facts: GeometryFacts[]) => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const lines = facts.map(f => [
+    `- ${f.name}${f.selected ? ' (selected)' : ''}:`,
+    `  size ${round(f.width)} x ${round(f.depth)} mm footprint, ${round(f.height)} mm tall (scale ${round(f.scale * 100)}%)`,
+    `  mesh volume ${round(f.meshVolume / 1000)} cm³, bounding box volume ${round(f.boundingBoxVolume / 1000)} cm³`,
+    `  surface area ${round(f.surfaceArea / 100)} cm², ${f.triangleCount} triangles`,
+    `  ${f.isWatertight === null ? 'watertightness unknown' : f.isWatertight ? 'watertight' : 'NOT watertight'}` +
+      (f.shellCount !== null ? `, ${f.shellCount} shell(s)` : ''),
+    `  overhang area ${round(f.overhangArea / 100)} cm² steeper than ${f.overhangAngle}° from vertical in the current orientation`,
+  ].join('\n'));
+  return `Measured geometry (Y is the build direction, the bed is at Y=0):\n${lines.join('\n')}`;
+};
+
+const viewParts = (views: ModelView[]): Part[] =>
+  views.flatMap(view => [
+    { text: `${view.label} view:` },
+    {
+      inlineData: {
+        mimeType: 'image/png',
+        // Remove data URL prefix if present (e.g. "data:image/png;base64,")
+        data: view.image.split(',')[1] || view.image
+      }
+    }
+  ]);
+
+/**
+ * Text-only history for a conversation restored from saved messages; the facts
+ * are sent again with the next question.
+ */
+const historyFromMessages = (messages: AnalysisMessage[]): Content[] =>
+  messages
+    .filter(m => !m.isError && m.content)
+    .map(m => ({ role: m.role === 'ai' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+/**
+ * Sends a question in the conversation `chatId` and streams the answer. `onText`
+ * receives the reply so far after every chunk. The turn is only added to the
+ * history once the reply completed, so a failed or aborted question can be retried.
+ * `previous` seeds the history when the service has none for this chat yet.
+ */
+export const streamAnalysis = async (
+  chatId: string,
+  views: ModelView[],
+  facts: GeometryFacts[],
+  promptText: string,
+  previous: AnalysisMessage[],
+  onText: (text: string) => void,
+  signal: AbortSignal
+): Promise<string> => {
+  let chat = chats.get(chatId);
+  if (!chat) {
+    chat = { history: historyFromMessages(previous), contextKey: null };
+    chats.set(chatId, chat);
+  }
+
+  const contextKey = JSON.stringify(facts);
+  const sendContext = contextKey !== chat.contextKey;
+  // Stored without the images, which would otherwise be resent with every later question
+  const textContent: Content = {
+    role: 'user',
+    parts: [...(sendContext ? [{ text: describeFacts(facts) }] : []), { text: promptText }],
+  };
+  const userContent: Content = { role: 'user', parts: [...viewParts(views), ...textContent.parts!] };
+
+  let text = '';
   try {
-    // Remove data URL prefix if present (e.g. "data:image/png;base64,")
-    const cleanBase64 = base64Image.split(',')[1] || base64Image;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cleanBase64
-            }
-          },
-          {
-            text: promptText
-          }
-        ]
-      },
+    const stream = await ai.models.generateContentStream({
+      model: MODEL,
+      contents: [...chat.history, userContent],
       config: {
-        systemInstruction: "You are an expert 3D printing engineer and industrial designer. Analyze the provided image of a 3D model. Provide concise, technical insights about geometry, potential 3D printing challenges (overhangs, bed adhesion), and guess what the object is.",
-        thinkingConfig: { thinkingBudget: 0 } // Disable thinking for faster visual analysis
+        systemInstruction: SYSTEM_INSTRUCTION,
+        thinkingConfig: { thinkingBudget: 0 }, // Disable thinking for faster visual analysis
+        abortSignal: signal
       }
     });
-
-    return response.text || "No analysis could be generated.";
+    for await (const chunk of stream) {
+      if (signal.aborted) break;
+      text += chunk.text ?? '';
+      onText(text);
+    }
   } catch (error: any) {
+    if (signal.aborted) throw new DOMException('Analysis cancelled.', 'AbortError');
     console.error("Gemini API Error:", error);
-    throw new Error(error.message || "Failed to analyze image.");
+    throw new Error(error.message || "Failed to analyze the model.");
   }
+  if (signal.aborted) throw new DOMException('Analysis cancelled.', 'AbortError');
+
+  const reply = text || "No analysis could be generated.";
+  chat.history.push(textContent, { role: 'model', parts: [{ text: reply }] });
+  if (sendContext) chat.contextKey = contextKey;
+  return reply;
+};
+
+export const resetChat = (chatId: string) => {
+  chats.delete(chatId);
 };
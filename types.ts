@@ -1,19 +1,314 @@
+import * as THREE from 'three';
+
 export interface ModelDimensions {
   width: number;
   height: number;
   depth: number;
-  volume: number;
+  volume: number; // Bounding box volume (mm³)
+  meshVolume: number; // Enclosed mesh volume (mm³), signed tetrahedron sum
+  surfaceArea: number; // Total triangle area (mm²)
+}
+
+// Transform-independent measures of a geometry, in its own units
+export interface MeshMetrics {
+  signedVolume: number;
+  surfaceArea: number;
+}
+
+export type LengthUnit = 'mm' | 'cm' | 'in';
+
+export interface SceneObject {
+  id: string;
+  name: string;
+  geometry: THREE.BufferGeometry;
+  metrics: MeshMetrics;
+  sourceUnit: LengthUnit; // Unit the file was authored in; folded into `scale`
+  rotation: THREE.Quaternion;
+  scale: number;
+  position: [number, number]; // X/Z placement on the floor (mm)
+  visible: boolean;
+  file: File; // Source model, kept so sessions can be restored
+}
+
+// The parts of an object an undoable transform can change. Mirroring and per-axis
+// scaling are baked into the geometry, so `scale` stays uniform everywhere else.
+// `position` is only recorded by steps that also move the object.
+export type TransformState = Pick<SceneObject, 'geometry' | 'metrics' | 'file' | 'sourceUnit' | 'rotation' | 'scale'> &
+  Partial<Pick<SceneObject, 'position'>>;
+
+export interface TransformHistoryEntry {
+  objectId: string;
+  label: string;
+  before: TransformState;
+  after: TransformState;
+  bake: THREE.Matrix4 | null; // Maps the old geometry coordinates to the new ones when the geometry was baked
+  time: number; // ms, lets quick repeats of the same edit merge into one step
+}
+
+export interface OrientationCandidate {
+  rotation: THREE.Quaternion; // Absolute mesh rotation placing the candidate face on the bed
+  overhangArea: number; // mm²
+  contactArea: number; // mm²
+  height: number; // mm
+  score: number; // Lower is better
+  source: 'face' | 'hull' | 'axis';
+}
+
+// Section plane in world space: points p with dot(normal, p) = offset
+export interface SectionPlane {
+  normal: [number, number, number];
+  offset: number;
+}
+
+export interface CrossSection {
+  loops: [number, number][][]; // Closed contours in plane coordinates (mm)
+  openPaths: [number, number][][]; // Contours that could not be closed (open meshes)
+  perimeter: number; // mm
+  area: number; // mm², holes subtracted
+  width: number; // mm, along the plane's first axis
+  height: number; // mm, along the plane's second axis
+}
+
+export interface CutOptions {
+  pins: boolean; // Sink alignment pin holes into both cut faces
+  pinDiameter: number; // mm, hole diameter
+  pinDepth: number; // mm, per part
+  layFlat: boolean; // Turn every part so its cut face rests on the bed
+}
+
+export interface HollowSettings {
+  wallThickness: number; // mm
+  drainDiameter: number; // mm
+}
+
+export interface HollowSummary {
+  solidVolume: number; // mm³
+  hollowVolume: number; // mm³ of material left after hollowing and drilling
+}
+
+// Drain hole picked on the outer surface, in the object's geometry coordinates
+export interface DrainHole {
+  point: [number, number, number];
+  normal: [number, number, number]; // Outward surface normal, the drilling direction reversed
+}
+
+export type MeasurementKind = 'distance' | 'angle' | 'radius' | 'pointToFace';
+
+// Annotations are stored in the object's geometry coordinates so they follow it through rotation and scale
+export interface Measurement {
+  id: string;
+  name: string;
+  objectId: string;
+  kind: MeasurementKind;
+  points: [number, number, number][];
+  normal?: [number, number, number]; // Picked face normal for point-to-face
+  visible: boolean;
+}
+
+// Connected patch of faces thinner than the minimum wall thickness
+export interface ThinRegion {
+  minThickness: number; // mm
+  area: number; // mm²
+  center: [number, number, number]; // Geometry coordinates
+}
+
+export type SnapMode = 'none' | 'vertex' | 'edge' | 'center';
+
+export type ModelFormat = 'stl' | 'obj' | '3mf' | 'ply' | 'gltf' | 'glb';
+
+export interface LoadProgress {
+  stage: 'reading' | 'parsing' | 'analyzing';
+  progress: number | null; // 0..1, null when the stage cannot report it
+}
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  width: number; // mm, printer X
+  depth: number; // mm, printer Y
+  height: number; // mm, printer Z
+}
+
+export interface PrintSettings {
+  materialId: string; // A MATERIAL_PRESETS id or 'custom'
+  density: number; // g/cm³
+  pricePerKg: number;
+  filamentDiameter: number; // mm
+  layerHeight: number; // mm
+  wallCount: number;
+  infill: number; // Percent
+}
+
+export interface PrintEstimate {
+  materialVolume: number; // mm³ of extruded plastic
+  filamentLength: number; // mm
+  weight: number; // g
+  cost: number; // In the currency of pricePerKg
+  printTime: number; // Seconds
+}
+
+export type ReportFormat = 'html' | 'print' | 'json';
+
+// Everything an inspection report shows for one object; lengths in mm, angles in degrees
+export interface InspectionReport {
+  generatedAt: string; // ISO timestamp
+  displayUnit: LengthUnit;
+  object: {
+    name: string;
+    sourceUnit: LengthUnit;
+    scale: number;
+    rotation: [number, number, number]; // Euler XYZ in the viewer's Y-up frame
+    position: [number, number];
+  };
+  dimensions: ModelDimensions;
+  measurements: { name: string, kind: MeasurementKind, value: number | null, display: string }[];
+  diagnostics: {
+    triangleCount: number;
+    vertexCount: number;
+    shellCount: number;
+    isWatertight: boolean;
+    issues: { label: string, count: number }[];
+  } | null;
+  printSettings: PrintSettings;
+  printEstimate: PrintEstimate | null;
+  analysis: AnalysisMessage[];
+  snapshots: string[]; // PNG data URLs
+}
+
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// Serializable SceneObject; the model file is stored separately under fileId
+export interface SessionObject {
+  id: string;
+  name: string;
+  fileId: string;
+  sourceUnit: LengthUnit;
+  rotation: [number, number, number, number]; // Quaternion x, y, z, w
+  scale: number;
+  position: [number, number];
+  visible: boolean;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  savedAt: number; // Epoch ms
+  objects: SessionObject[];
+  selectedId: string | null;
+  measurements: Measurement[];
+  messages: Record<string, AnalysisMessage[]>; // AI conversation per object id
+  camera: CameraPose | null;
+  displayUnit: LengthUnit;
+  printSettings: PrintSettings;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+  objectCount: number;
+}
+
+export interface MaterialPreset {
+  id: string;
+  name: string;
+  density: number; // g/cm³
+}
+
+export type MeshIssueCategory =
+  | 'boundaryEdges'
+  | 'nonManifoldEdges'
+  | 'flippedFaces'
+  | 'degenerateFaces'
+  | 'looseShells';
+
+export interface MeshIssue {
+  category: MeshIssueCategory;
+  label: string;
+  kind: 'edges' | 'faces';
+  count: number;
+  // Edges: flat pairs of position indices. Faces: triangle indices.
+  indices: number[];
+}
+
+export interface MeshDiagnostics {
+  triangleCount: number;
+  vertexCount: number; // After welding
+  shellCount: number;
+  isWatertight: boolean;
+  issues: MeshIssue[];
+}
+
+export interface MeshRepairReport {
+  verticesMerged: number;
+  degenerateRemoved: number;
+  duplicatesRemoved: number;
+  facesFlipped: number;
+  holesFilled: number;
+  trianglesAdded: number;
+  triangleCountBefore: number;
+  triangleCountAfter: number;
+  isWatertight: boolean;
 }
 
 export interface AnalysisMessage {
   role: 'user' | 'ai';
-  content: string;
+  content: string; // Markdown for AI replies
   isError?: boolean;
+  streaming?: boolean; // Reply still arriving
+}
+
+export type AlignmentMethod = 'center' | 'icp';
+
+export interface DeviationSummary {
+  min: number; // Signed, mm; negative where the primary lies inside the reference
+  max: number;
+  meanAbs: number; // Area-weighted mean of |deviation|
+  withinTolerance: number; // Fraction of the surface area, 0-1
+}
+
+export interface ImageExportOptions {
+  width: number; // px
+  height: number; // px
+  transparent: boolean; // Leave out the background, floor and grid
+  dimensions: boolean; // Draw the bounding box dimensions of every visible model
+}
+
+export interface ModelView {
+  label: string;
+  image: string; // PNG data URL
+}
+
+// Measured values sent along with the views so the AI can quote real numbers (mm)
+export interface GeometryFacts {
+  name: string;
+  selected: boolean;
+  width: number;
+  height: number; // Along the build direction
+  depth: number;
+  meshVolume: number; // mm³
+  boundingBoxVolume: number; // mm³
+  surfaceArea: number; // mm²
+  triangleCount: number;
+  shellCount: number | null;
+  isWatertight: boolean | null;
+  overhangArea: number; // mm² beyond overhangAngle
+  overhangAngle: number; // Degrees from vertical
+  scale: number;
 }
 
 export enum ViewerMode {
   VIEW = 'VIEW',
   MEASURE = 'MEASURE',
   AI_ANALYSIS = 'AI_ANALYSIS',
-  ALIGN = 'ALIGN'
+  ALIGN = 'ALIGN',
+  OVERHANG = 'OVERHANG',
+  SECTION = 'SECTION',
+  THICKNESS = 'THICKNESS',
+  COMPARE = 'COMPARE',
+  ROTATE = 'ROTATE',
+  HOLLOW = 'HOLLOW'
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { ConvexHull } from 'three-stdlib';
+import { OrientationCandidate } from '../types';
+import { forEachTriangle, computeMeshMetrics } from './meshMetrics';
+import { weldVertices } from './meshDiagnostics';
+import { classifyFaces } from './overhang';
+
+// How many of the largest flat regions to try from each source
+const CANDIDATES_PER_SOURCE = 8;
+
+// Convex hull input is subsampled above this many points
+const MAX_HULL_POINTS = 20000;
+
+// Normals closer than this (dot product) count as the same direction
+const SAME_DIRECTION = 0.999;
+
+// Score weights: overhangs dominate, bed contact and low height break ties
+const OVERHANG_WEIGHT = 1.0;
+const CONTACT_WEIGHT = 0.5;
+const HEIGHT_WEIGHT = 0.3;
+
+interface NormalCluster {
+  normal: THREE.Vector3;
+  area: number;
+}
+
+// Groups coplanar-facing areas by quantized normal and returns the largest groups
+const largestNormalClusters = (faces: { normal: THREE.Vector3, area: number }[], limit: number) => {
+  const clusters = new Map<string, NormalCluster>();
+  for (const { normal, area } of faces) {
+    if (area <= 0) continue;
+    const key = `${Math.round(normal.x * 100)}_${Math.round(normal.y * 100)}_${Math.round(normal.z * 100)}`;
+    const cluster = clusters.get(key);
+    if (cluster) {
+      cluster.normal.addScaledVector(normal, area);
+      cluster.area += area;
+    } else {
+      clusters.set(key, { normal: normal.clone().multiplyScalar(area), area });
+    }
+  }
+  return Array.from(clusters.values())
+    .sort((x, y) => y.area - x.area)
+    .slice(0, limit)
+    .map(cluster => cluster.normal.normalize());
+};
+
+const meshFaceNormals = (geometry: THREE.BufferGeometry) => {
+  const position = geometry.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const faces: { normal: THREE.Vector3, area: number }[] = [];
+
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    a.fromBufferAttribute(position, ia);
+    b.fromBufferAttribute(position, ib).sub(a);
+    c.fromBufferAttribute(position, ic).sub(a);
+    const normal = new THREE.Vector3().crossVectors(b, c);
+    const area = normal.length() / 2;
+    if (area > 0) faces.push({ normal: normal.normalize(), area });
+  });
+  return faces;
+};
+
+const hullFaceNormals = (geometry: THREE.BufferGeometry) => {
+  const { positions, vertexCount } = weldVertices(geometry);
+  const stride = Math.max(1, Math.ceil(vertexCount / MAX_HULL_POINTS));
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < vertexCount; i += stride) {
+    points.push(new THREE.Vector3(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]));
+  }
+  if (points.length < 4) return [];
+
+  const hull = new ConvexHull().setFromPoints(points);
+  return hull.faces.map(face => ({ normal: face.normal.clone(), area: face.area }));
+};
+
+/**
+ * Suggests print orientations by placing candidate faces on the bed and ranking
+ * them by overhang area, bed contact and build height (lower score is better).
+ * Candidates come from the largest flat faces, the convex hull and the six axes.
+ */
+export const suggestOrientations = (
+  geometry: THREE.BufferGeometry,
+  scale: number,
+  criticalAngle: number,
+  count = 4
+): OrientationCandidate[] => {
+  const sources: { normals: THREE.Vector3[], source: OrientationCandidate['source'] }[] = [
+    { normals: largestNormalClusters(meshFaceNormals(geometry), CANDIDATES_PER_SOURCE), source: 'face' },
+    { normals: largestNormalClusters(hullFaceNormals(geometry), CANDIDATES_PER_SOURCE), source: 'hull' },
+    {
+      normals: [
+        new THREE.Vector3(1, 0, 0), new THREE.Vector3(-1, 0, 0),
+        new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, -1, 0),
+        new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 0, -1),
+      ],
+      source: 'axis'
+    },
+  ];
+
+  const { surfaceArea } = computeMeshMetrics(geometry);
+  const totalArea = Math.max(surfaceArea * scale * scale, 1e-9);
+  geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox
+    ? Math.max(geometry.boundingBox.getSize(new THREE.Vector3()).length() * scale, 1e-9)
+    : 1;
+
+  const down = new THREE.Vector3(0, -1, 0);
+  const tried: THREE.Vector3[] = [];
+  const candidates: OrientationCandidate[] = [];
+
+  for (const { normals, source } of sources) {
+    for (const normal of normals) {
+      if (tried.some(n => n.dot(normal) > SAME_DIRECTION)) continue;
+      tried.push(normal);
+
+      // The candidate face points straight down onto the bed
+      const rotation = new THREE.Quaternion().setFromUnitVectors(normal, down);
+      const { overhangArea, contactArea, height } = classifyFaces(geometry, rotation, scale, criticalAngle);
+      const score =
+        OVERHANG_WEIGHT * (overhangArea / totalArea) -
+        CONTACT_WEIGHT * (contactArea / totalArea) +
+        HEIGHT_WEIGHT * (height / diagonal);
+
+      candidates.push({ rotation, overhangArea, contactArea, height, score, source });
+    }
+  }
+
+  return candidates.sort((x, y) => x.score - y.score).slice(0, count);
+};
@@ -0,0 +1,222 @@
+import * as THREE from 'three';
+import { CrossSection, SectionPlane } from '../types';
+import { forEachTriangle } from './meshMetrics';
+
+// Segment endpoints closer than this (mm) are joined into one contour
+const JOIN_TOLERANCE = 1e-4;
+
+// The cut is taken this far (mm) past the plane so that vertices lying on it,
+// e.g. when the plane was picked from a face, do not produce degenerate segments
+export const PLANE_NUDGE = 1e-4;
+
+/**
+ * In-plane axes for a section plane. Horizontal cuts use X and -Z so the 2D
+ * drawing reads like a top view; other planes keep "up" as the second axis.
+ */
+export const planeBasis = (normal: THREE.Vector3) => {
+  const up = new THREE.Vector3(0, 1, 0);
+  const u = Math.abs(normal.dot(up)) > 0.999
+    ? new THREE.Vector3(1, 0, 0)
+    : new THREE.Vector3().crossVectors(up, normal).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u).normalize();
+  return { u, v };
+};
+
+const polygonArea = (loop: [number, number][]) => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [x1, y1] = loop[i];
+    const [x2, y2] = loop[(i + 1) % loop.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+};
+
+export const pointInPolygon = ([x, y]: [number, number], loop: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const [xi, yi] = loop[i];
+    const [xj, yj] = loop[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Nesting depth of each closed loop (0 = outer boundary, 1 = hole, 2 = island...).
+ * Used instead of winding so that sections of inconsistently wound meshes still work.
+ */
+export const loopDepths = (loops: [number, number][][]) =>
+  loops.map((loop, i) =>
+    loops.reduce((depth, other, j) => (j !== i && pointInPolygon(loop[0], other) ? depth + 1 : depth), 0)
+  );
+
+/**
+ * Intersects a geometry (placed in the world by `matrix`) with a plane and chains
+ * the cut segments into contours expressed in the plane's 2D basis (mm).
+ */
+export const computeCrossSection = (
+  geometry: THREE.BufferGeometry,
+  matrix: THREE.Matrix4,
+  plane: SectionPlane
+): CrossSection => {
+  const position = geometry.getAttribute('position');
+  const normal = new THREE.Vector3(...plane.normal).normalize();
+  const { u, v } = planeBasis(normal);
+  const offset = plane.offset + PLANE_NUDGE;
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const hits: THREE.Vector3[] = [];
+
+  // 1. Cut every triangle into at most one segment
+  const segments: [number, number][][] = [];
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    corners[0].fromBufferAttribute(position, ia).applyMatrix4(matrix);
+    corners[1].fromBufferAttribute(position, ib).applyMatrix4(matrix);
+    corners[2].fromBufferAttribute(position, ic).applyMatrix4(matrix);
+    const d = corners.map(p => p.dot(normal) - offset);
+
+    hits.length = 0;
+    for (let k = 0; k < 3; k++) {
+      const a = k;
+      const b = (k + 1) % 3;
+      if ((d[a] >= 0) === (d[b] >= 0)) continue;
+      // Interpolate from the lower to the upper corner so shared edges give identical points
+      const [lo, hi] = d[a] < d[b] ? [a, b] : [b, a];
+      const t = d[lo] / (d[lo] - d[hi]);
+      hits.push(corners[lo].clone().lerp(corners[hi], t));
+    }
+    if (hits.length === 2) {
+      segments.push(hits.map(p => [p.dot(u), p.dot(v)] as [number, number]));
+    }
+  });
+
+  // 2. Chain segments that share endpoints
+  const keyOf = ([x, y]: [number, number]) => `${Math.round(x / JOIN_TOLERANCE)}_${Math.round(y / JOIN_TOLERANCE)}`;
+  const byKey = new Map<string, number[]>();
+  segments.forEach((segment, i) => {
+    for (const point of segment) {
+      const key = keyOf(point);
+      const list = byKey.get(key);
+      if (list) list.push(i);
+      else byKey.set(key, [i]);
+    }
+  });
+
+  const used = new Uint8Array(segments.length);
+  const loops: [number, number][][] = [];
+  const openPaths: [number, number][][] = [];
+
+  for (let start = 0; start < segments.length; start++) {
+    if (used[start]) continue;
+    used[start] = 1;
+    const path: [number, number][] = [segments[start][0], segments[start][1]];
+    const startKey = keyOf(path[0]);
+    let closed = false;
+
+    // Extend forwards, then backwards if the chain turns out to be open
+    for (const direction of ['forward', 'backward'] as const) {
+      while (true) {
+        const tip = direction === 'forward' ? path[path.length - 1] : path[0];
+        const tipKey = keyOf(tip);
+        if (direction === 'forward' && path.length > 2 && tipKey === startKey) {
+          closed = true;
+          break;
+        }
+        const nextIndex = (byKey.get(tipKey) ?? []).find(i => !used[i]);
+        if (nextIndex === undefined) break;
+        used[nextIndex] = 1;
+        const [p0, p1] = segments[nextIndex];
+        const other = keyOf(p0) === tipKey ? p1 : p0;
+        if (direction === 'forward') path.push(other);
+        else path.unshift(other);
+      }
+      if (closed) break;
+    }
+
+    if (closed) {
+      path.pop(); // Last point repeats the first
+      if (path.length >= 3) loops.push(path);
+    } else {
+      openPaths.push(path);
+    }
+  }
+
+  // 3. Measurements
+  let perimeter = 0;
+  for (const path of [...loops, ...openPaths]) {
+    const count = loops.includes(path) ? path.length : path.length - 1;
+    for (let i = 0; i < count; i++) {
+      const [x1, y1] = path[i];
+      const [x2, y2] = path[(i + 1) % path.length];
+      perimeter += Math.hypot(x2 - x1, y2 - y1);
+    }
+  }
+
+  const depths = loopDepths(loops);
+  const area = loops.reduce((sum, loop, i) => {
+    const loopArea = Math.abs(polygonArea(loop));
+    return depths[i] % 2 === 0 ? sum + loopArea : sum - loopArea;
+  }, 0);
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const path of [...loops, ...openPaths]) {
+    for (const [x, y] of path) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  const hasPoints = minX !== Infinity;
+
+  return {
+    loops,
+    openPaths,
+    perimeter,
+    area,
+    width: hasPoints ? maxX - minX : 0,
+    height: hasPoints ? maxY - minY : 0,
+  };
+};
+
+/**
+ * Outlines of the section's solid regions, with their holes, in plane coordinates.
+ * Extra `holes` are cut out of the outline that contains them.
+ */
+export const buildCapShapes = (section: CrossSection, holes: [number, number][][] = []) => {
+  const depths = loopDepths(section.loops);
+  const shapes: THREE.Shape[] = [];
+  section.loops.forEach((loop, i) => {
+    if (depths[i] % 2 !== 0) return;
+    const shape = new THREE.Shape(loop.map(([x, y]) => new THREE.Vector2(x, y)));
+    // Direct children of this outline are its holes
+    section.loops.forEach((other, j) => {
+      if (depths[j] === depths[i] + 1 && pointInPolygon(other[0], loop)) {
+        shape.holes.push(new THREE.Path(other.map(([x, y]) => new THREE.Vector2(x, y))));
+      }
+    });
+    holes.forEach(hole => {
+      const holeDepth = section.loops.filter(other => pointInPolygon(hole[0], other)).length;
+      if (holeDepth === depths[i] + 1 && pointInPolygon(hole[0], loop)) {
+        shape.holes.push(new THREE.Path(hole.map(([x, y]) => new THREE.Vector2(x, y))));
+      }
+    });
+    shapes.push(shape);
+  });
+  return shapes;
+};
+
+/**
+ * Triangulates the closed contours into a flat cap lying on the section plane (world space).
+ */
+export const buildCapGeometry = (section: CrossSection, plane: SectionPlane) => {
+  const normal = new THREE.Vector3(...plane.normal).normalize();
+  const { u, v } = planeBasis(normal);
+  const cap = new THREE.ShapeGeometry(buildCapShapes(section));
+  const basis = new THREE.Matrix4().makeBasis(u, v, normal);
+  basis.setPosition(normal.clone().multiplyScalar(plane.offset));
+  cap.applyMatrix4(basis);
+  return cap;
+};
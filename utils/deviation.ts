@@ -0,0 +1,327 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { AlignmentMethod, DeviationSummary } from '../types';
+import { forEachTriangle } from './meshMetrics';
+
+export const DEFAULT_DEVIATION_TOLERANCE = 0.1;
+
+// Primary vertices used to fit the alignment
+const ICP_SAMPLES = 4000;
+const ICP_MAX_ITERATIONS = 50;
+// Stop once the RMS distance improves by less than this fraction
+const ICP_CONVERGENCE = 1e-5;
+// Share of the worst matches ignored per iteration, so changed regions don't pull the fit
+const ICP_TRIM = 0.1;
+
+// How often (in vertices) the worker reports progress
+const PROGRESS_INTERVAL = 10000;
+
+const WITHIN_COLOR = new THREE.Color('#10b981');
+const ADDED_LOW_COLOR = new THREE.Color('#facc15');
+const ADDED_HIGH_COLOR = new THREE.Color('#ef4444');
+const REMOVED_LOW_COLOR = new THREE.Color('#22d3ee');
+const REMOVED_HIGH_COLOR = new THREE.Color('#3b82f6');
+
+interface MeshBuffers {
+  positions: Float32Array;
+  index: Uint32Array | null;
+  rotation: number[]; // Viewer rotation quaternion as [x, y, z, w]
+  scale: number; // To mm
+}
+
+interface DeviationSource {
+  geometry: THREE.BufferGeometry;
+  rotation: THREE.Quaternion;
+  scale: number;
+}
+
+export interface DeviationRequest {
+  primary: MeshBuffers;
+  reference: MeshBuffers;
+  alignment: AlignmentMethod;
+}
+
+export type DeviationMessage =
+  | { type: 'progress', progress: number }
+  | { type: 'done', distances: Float32Array, transform: number[], rms: number }
+  | { type: 'error', message: string };
+
+// The mesh as the viewer places it, so both revisions are compared in the orientation shown
+const buildGeometry = ({ positions, index, rotation, scale }: MeshBuffers) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  geometry.applyQuaternion(new THREE.Quaternion().fromArray(rotation));
+  geometry.scale(scale, scale, scale);
+  geometry.computeBoundingBox();
+  return geometry;
+};
+
+/**
+ * Eigenvector of the largest eigenvalue of a symmetric 4x4 matrix (cyclic Jacobi).
+ */
+const dominantEigenvector = (m: number[][]) => {
+  const a = m.map(row => [...row]);
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 4; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] ** 2;
+    if (off < 1e-20) break;
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  let best = 0;
+  for (let i = 1; i < 4; i++) if (a[i][i] > a[best][best]) best = i;
+  return [v[0][best], v[1][best], v[2][best], v[3][best]];
+};
+
+/**
+ * Rigid transform best mapping `source` points onto `target` points in the
+ * least-squares sense (Horn's quaternion method).
+ */
+export const fitRigidTransform = (source: THREE.Vector3[], target: THREE.Vector3[]) => {
+  const sourceCenter = new THREE.Vector3();
+  const targetCenter = new THREE.Vector3();
+  source.forEach(p => sourceCenter.add(p));
+  target.forEach(p => targetCenter.add(p));
+  sourceCenter.divideScalar(source.length);
+  targetCenter.divideScalar(target.length);
+
+  // Cross-covariance S[i][j] = sum of source_i * target_j about the centers
+  const s = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  for (let k = 0; k < source.length; k++) {
+    const pa = a.subVectors(source[k], sourceCenter).toArray();
+    const pb = b.subVectors(target[k], targetCenter).toArray();
+    for (let i = 0; i < 3; i++) for (let j = 0; j < 3; j++) s[i][j] += pa[i] * pb[j];
+  }
+  const [[xx, xy, xz], [yx, yy, yz], [zx, zy, zz]] = s;
+  const [w, x, y, z] = dominantEigenvector([
+    [xx + yy + zz, yz - zy, zx - xz, xy - yx],
+    [yz - zy, xx - yy - zz, xy + yx, zx + xz],
+    [zx - xz, xy + yx, -xx + yy - zz, yz + zy],
+    [xy - yx, zx + xz, yz + zy, -xx - yy + zz],
+  ]);
+
+  const rotation = new THREE.Quaternion(x, y, z, w).normalize();
+  const translation = targetCenter.clone().sub(sourceCenter.applyQuaternion(rotation));
+  return new THREE.Matrix4().compose(translation, rotation, new THREE.Vector3(1, 1, 1));
+};
+
+/**
+ * Signed distance from every primary vertex to the reference surface, in mm, after
+ * aligning the primary onto the reference. Positive values lie outside the
+ * reference (material added in the primary), negative ones inside it.
+ * `transform` maps primary mm coordinates into the reference frame.
+ */
+export const computeDeviation = (
+  { primary, reference, alignment }: DeviationRequest,
+  onProgress?: (progress: number) => void
+) => {
+  const primaryGeometry = buildGeometry(primary);
+  const referenceGeometry = buildGeometry(reference);
+  const bvh = new MeshBVH(referenceGeometry);
+  const referencePosition = referenceGeometry.getAttribute('position');
+  const referenceIndex = referenceGeometry.getIndex()!;
+
+  // Start by matching bounding box centers
+  const transform = new THREE.Matrix4().makeTranslation(
+    referenceGeometry.boundingBox!.getCenter(new THREE.Vector3())
+      .sub(primaryGeometry.boundingBox!.getCenter(new THREE.Vector3()))
+  );
+
+  const position = primaryGeometry.getAttribute('position');
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  const point = new THREE.Vector3();
+  let rms = 0;
+
+  if (alignment === 'icp') {
+    const stride = Math.max(1, Math.floor(position.count / ICP_SAMPLES));
+    const samples: THREE.Vector3[] = [];
+    for (let i = 0; i < position.count; i += stride) samples.push(new THREE.Vector3().fromBufferAttribute(position, i));
+
+    let previous = Infinity;
+    for (let iteration = 0; iteration < ICP_MAX_ITERATIONS; iteration++) {
+      const matches = samples.map(sample => {
+        point.copy(sample).applyMatrix4(transform);
+        bvh.closestPointToPoint(point, hit);
+        return { sample, target: hit.point.clone(), distance: hit.distance };
+      });
+      matches.sort((m1, m2) => m1.distance - m2.distance);
+      const kept = matches.slice(0, Math.max(3, Math.ceil(matches.length * (1 - ICP_TRIM))));
+      rms = Math.sqrt(kept.reduce((sum, m) => sum + m.distance ** 2, 0) / kept.length);
+      if (iteration > 0 && previous - rms <= previous * ICP_CONVERGENCE) break;
+      previous = rms;
+      transform.copy(fitRigidTransform(kept.map(m => m.sample), kept.map(m => m.target)));
+      onProgress?.(0.3 * (iteration + 1) / ICP_MAX_ITERATIONS);
+    }
+  }
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const distances = new Float32Array(position.count);
+  const progressStart = alignment === 'icp' ? 0.3 : 0;
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i).applyMatrix4(transform);
+    bvh.closestPointToPoint(point, hit);
+    a.fromBufferAttribute(referencePosition, referenceIndex.getX(hit.faceIndex * 3));
+    b.fromBufferAttribute(referencePosition, referenceIndex.getX(hit.faceIndex * 3 + 1));
+    c.fromBufferAttribute(referencePosition, referenceIndex.getX(hit.faceIndex * 3 + 2));
+    THREE.Triangle.getNormal(a, b, c, normal);
+    distances[i] = point.sub(hit.point).dot(normal) < 0 ? -hit.distance : hit.distance;
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(progressStart + (1 - progressStart) * i / position.count);
+  }
+
+  return { distances, transform: transform.toArray(), rms };
+};
+
+const meshBuffers = ({ geometry, rotation, scale }: DeviationSource): MeshBuffers => {
+  const index = geometry.getIndex();
+  return {
+    positions: Float32Array.from(geometry.getAttribute('position').array),
+    index: index ? Uint32Array.from(index.array) : null,
+    rotation: rotation.toArray(),
+    scale,
+  };
+};
+
+/**
+ * Runs computeDeviation in a Web Worker on copies of both geometries; `cancel`
+ * terminates the worker and rejects with an AbortError.
+ */
+export const analyzeDeviation = (
+  primary: DeviationSource,
+  reference: DeviationSource,
+  alignment: AlignmentMethod,
+  onProgress: (progress: number) => void
+) => {
+  const worker = new Worker(new URL('./deviation.worker.ts', import.meta.url), { type: 'module' });
+  const request: DeviationRequest = {
+    primary: meshBuffers(primary),
+    reference: meshBuffers(reference),
+    alignment,
+  };
+
+  let cancel = () => {};
+  const promise = new Promise<{ distances: Float32Array, transform: number[], rms: number }>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new DOMException('Comparison cancelled.', 'AbortError'));
+    };
+    worker.onmessage = (event: MessageEvent<DeviationMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve({ distances: message.distances, transform: message.transform, rms: message.rms });
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.error('Deviation worker failed:', event.message);
+      reject(new Error('Comparison failed.'));
+    };
+  });
+
+  const transfer: Transferable[] = [];
+  for (const buffers of [request.primary, request.reference]) {
+    transfer.push(buffers.positions.buffer);
+    if (buffers.index) transfer.push(buffers.index.buffer);
+  }
+  worker.postMessage(request, transfer);
+  return { promise, cancel };
+};
+
+/**
+ * Per-vertex heatmap: green within the tolerance, yellow to red where material was
+ * added and cyan to blue where it was removed, saturating at `range` mm.
+ */
+export const computeDeviationColors = (distances: Float32Array, tolerance: number, range: number) => {
+  const colors = new Float32Array(distances.length * 3);
+  const color = new THREE.Color();
+  const span = Math.max(range - tolerance, 1e-9);
+
+  for (let i = 0; i < distances.length; i++) {
+    const value = distances[i];
+    const t = Math.min((Math.abs(value) - tolerance) / span, 1);
+    if (Math.abs(value) <= tolerance) color.copy(WITHIN_COLOR);
+    else if (value > 0) color.copy(ADDED_LOW_COLOR).lerp(ADDED_HIGH_COLOR, t);
+    else color.copy(REMOVED_LOW_COLOR).lerp(REMOVED_HIGH_COLOR, t);
+    color.toArray(colors, i * 3);
+  }
+  return colors;
+};
+
+/**
+ * Deviation statistics over the primary surface; faces take the mean of their
+ * vertices and are weighted by area (geometry units, the ratio is unaffected by scale).
+ */
+export const summarizeDeviation = (
+  geometry: THREE.BufferGeometry,
+  distances: Float32Array,
+  tolerance: number
+): DeviationSummary => {
+  const position = geometry.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const triangle = new THREE.Triangle(a, b, c);
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < distances.length; i++) {
+    min = Math.min(min, distances[i]);
+    max = Math.max(max, distances[i]);
+  }
+
+  let totalArea = 0;
+  let withinArea = 0;
+  let weighted = 0;
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    a.fromBufferAttribute(position, ia);
+    b.fromBufferAttribute(position, ib);
+    c.fromBufferAttribute(position, ic);
+    const area = triangle.getArea();
+    const deviation = (distances[ia] + distances[ib] + distances[ic]) / 3;
+    totalArea += area;
+    weighted += Math.abs(deviation) * area;
+    if (Math.abs(deviation) <= tolerance) withinArea += area;
+  });
+
+  return {
+    min: distances.length > 0 ? min : 0,
+    max: distances.length > 0 ? max : 0,
+    meanAbs: totalArea > 0 ? weighted / totalArea : 0,
+    withinTolerance: totalArea > 0 ? withinArea / totalArea : 1,
+  };
+};
@@ -0,0 +1,13 @@
+import { computeDeviation, DeviationRequest, DeviationMessage } from './deviation';
+
+const post = (message: DeviationMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<DeviationRequest>) => {
+  try {
+    const { distances, transform, rms } = computeDeviation(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', distances, transform, rms }, [distances.buffer]);
+  } catch (error: any) {
+    console.error('Deviation analysis failed:', error);
+    post({ type: 'error', message: 'Comparison failed.' });
+  }
+};
@@ -0,0 +1,509 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { HollowSettings, HollowSummary, DrainHole } from '../types';
+import { weldVertices, edgeKey } from './meshDiagnostics';
+import { planeBasis } from './crossSection';
+
+export const DEFAULT_HOLLOW_SETTINGS: HollowSettings = {
+  wallThickness: 2,
+  drainDiameter: 3,
+};
+
+// Distance grid samples at most, which bounds the worker's memory at about 8 bytes each
+const MAX_GRID_SAMPLES = 1e7;
+
+// Offsets the sample grid off the triangle edges, where crossing counts are unreliable
+const GRID_JITTER = [1.37e-4, 2.91e-4, 4.13e-4];
+
+// Vertex ids stay below this while holes are drilled, so edge keys fit in a double
+const KEY_BASE = 2 ** 26;
+
+const THIN_MESSAGE = 'The model is too thin to hollow at this wall thickness.';
+
+export interface HollowRequest {
+  positions: Float32Array;
+  index: Uint32Array | null;
+  thickness: number; // Geometry units
+}
+
+export type HollowMessage =
+  | { type: 'progress', progress: number }
+  | { type: 'done', positions: Float32Array, index: Uint32Array }
+  | { type: 'error', message: string };
+
+// Cube corners and the 12 edges between them, for the surface nets pass
+const CORNERS = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1]];
+const CUBE_EDGES = [[0, 1], [2, 3], [4, 5], [6, 7], [0, 2], [1, 3], [4, 6], [5, 7], [0, 4], [1, 5], [2, 6], [3, 7]];
+
+/**
+ * Grid spacing for hollowing a model of the given size: half the wall, so the wall is
+ * resolved, unless that grid would exceed MAX_GRID_SAMPLES. Larger models get a
+ * coarser grid, where walls can come out thinner than `thickness`.
+ */
+export const hollowGridStep = (size: THREE.Vector3, thickness: number) => {
+  const fine = thickness / 2;
+  const samples = (size.x / fine + 3) * (size.y / fine + 3) * (size.z / fine + 3);
+  return samples <= MAX_GRID_SAMPLES ? fine : fine * Math.cbrt(samples / MAX_GRID_SAMPLES);
+};
+
+/**
+ * Builds the inner surface of a hollowed model: the points `thickness` inside the
+ * surface, from a distance field sampled on a grid and meshed with surface nets.
+ * Triangles face into the cavity. The mesh must be watertight, since inside and
+ * outside are told apart by counting surface crossings along each grid row.
+ */
+export const computeInnerShell = (
+  { positions, index, thickness }: HollowRequest,
+  onProgress?: (progress: number) => void
+) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+
+  // 1. Grid with a spare sample around the model on every side
+  const step = hollowGridStep(size, thickness);
+  const origin = box.min.clone().subScalar(step);
+  origin.x += step * GRID_JITTER[0];
+  origin.y += step * GRID_JITTER[1];
+  origin.z += step * GRID_JITTER[2];
+  const nx = Math.ceil(size.x / step) + 3;
+  const ny = Math.ceil(size.y / step) + 3;
+  const nz = Math.ceil(size.z / step) + 3;
+  const at = (i: number, j: number, k: number) => i + nx * (j + ny * k);
+
+  // 2. Field: wall thickness minus the depth below the surface, negative in the cavity
+  const bvh = new MeshBVH(geometry);
+  const field = new Float32Array(nx * ny * nz).fill(thickness);
+  const ray = new THREE.Ray(new THREE.Vector3(), new THREE.Vector3(1, 0, 0));
+  const point = new THREE.Vector3();
+  const reach = thickness + step * 2;
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      const y = origin.y + j * step;
+      const z = origin.z + k * step;
+      ray.origin.set(origin.x - step, y, z);
+      const crossings = bvh.raycast(ray, THREE.DoubleSide).map(hit => hit.point.x).sort((a, b) => a - b);
+      let crossed = 0;
+      for (let i = 0; i < nx; i++) {
+        const x = origin.x + i * step;
+        while (crossed < crossings.length && crossings[crossed] < x) crossed++;
+        if (crossed % 2 === 0) continue;
+        const hit = bvh.closestPointToPoint(point.set(x, y, z), undefined, 0, reach);
+        field[at(i, j, k)] = thickness - (hit ? hit.distance : reach);
+      }
+    }
+    onProgress?.((k + 1) / nz * 0.9);
+  }
+
+  // 3. One vertex per cell the surface passes, at the mean of its edge crossings
+  const cx = nx - 1;
+  const cy = ny - 1;
+  const cellAt = (i: number, j: number, k: number) => i + cx * (j + cy * k);
+  const cellVertex = new Int32Array(cx * cy * (nz - 1)).fill(-1);
+  const vertices: number[] = [];
+  const values = new Float32Array(8);
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let negative = 0;
+        CORNERS.forEach(([di, dj, dk], c) => {
+          values[c] = field[at(i + di, j + dj, k + dk)];
+          if (values[c] < 0) negative++;
+        });
+        if (negative === 0 || negative === 8) continue;
+
+        let sx = 0, sy = 0, sz = 0, count = 0;
+        for (const [c0, c1] of CUBE_EDGES) {
+          if ((values[c0] < 0) === (values[c1] < 0)) continue;
+          const t = values[c0] / (values[c0] - values[c1]);
+          sx += CORNERS[c0][0] + t * (CORNERS[c1][0] - CORNERS[c0][0]);
+          sy += CORNERS[c0][1] + t * (CORNERS[c1][1] - CORNERS[c0][1]);
+          sz += CORNERS[c0][2] + t * (CORNERS[c1][2] - CORNERS[c0][2]);
+          count++;
+        }
+        cellVertex[cellAt(i, j, k)] = vertices.length / 3;
+        vertices.push(
+          origin.x + (i + sx / count) * step,
+          origin.y + (j + sy / count) * step,
+          origin.z + (k + sz / count) * step
+        );
+      }
+    }
+  }
+
+  // 4. A quad around every grid edge that crosses the surface, facing the cavity side.
+  // The four cells are visited counter-clockwise around the edge's axis.
+  const faces: number[] = [];
+  const counts = [nx, ny, nz];
+  for (let k = 1; k < nz - 1; k++) {
+    for (let j = 1; j < ny - 1; j++) {
+      for (let i = 1; i < nx - 1; i++) {
+        const cell = [i, j, k];
+        const inCavity = field[at(i, j, k)] < 0;
+        for (let axis = 0; axis < 3; axis++) {
+          const next = [i, j, k];
+          next[axis]++;
+          if (next[axis] >= counts[axis] - 1) continue;
+          if ((field[at(next[0], next[1], next[2])] < 0) === inCavity) continue;
+
+          const b = (axis + 1) % 3;
+          const c = (axis + 2) % 3;
+          const quad = [[-1, -1], [0, -1], [0, 0], [-1, 0]].map(([db, dc]) => {
+            const corner = [...cell];
+            corner[b] += db;
+            corner[c] += dc;
+            return cellVertex[cellAt(corner[0], corner[1], corner[2])];
+          });
+          if (quad.some(v => v < 0)) continue;
+          // Counter-clockwise faces along +axis; the cavity side decides the direction
+          if (inCavity) faces.push(quad[0], quad[3], quad[2], quad[0], quad[2], quad[1]);
+          else faces.push(quad[0], quad[1], quad[2], quad[0], quad[2], quad[3]);
+        }
+      }
+    }
+  }
+  onProgress?.(1);
+
+  return { positions: new Float32Array(vertices), index: new Uint32Array(faces) };
+};
+
+/**
+ * Runs computeInnerShell in a Web Worker and resolves with the inner shell geometry.
+ * The source buffers are copied, so the render geometry stays usable; `cancel`
+ * terminates the worker and rejects with an AbortError.
+ */
+export const analyzeHollow = (
+  geometry: THREE.BufferGeometry,
+  thickness: number,
+  onProgress: (progress: number) => void
+) => {
+  const worker = new Worker(new URL('./hollow.worker.ts', import.meta.url), { type: 'module' });
+  const index = geometry.getIndex();
+  const request: HollowRequest = {
+    positions: Float32Array.from(geometry.getAttribute('position').array),
+    index: index ? Uint32Array.from(index.array) : null,
+    thickness,
+  };
+
+  let cancel = () => {};
+  const promise = new Promise<THREE.BufferGeometry>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new DOMException('Hollowing cancelled.', 'AbortError'));
+    };
+    worker.onmessage = (event: MessageEvent<HollowMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      if (message.index.length === 0) {
+        reject(new Error(THIN_MESSAGE));
+        return;
+      }
+      const shell = new THREE.BufferGeometry();
+      shell.setAttribute('position', new THREE.BufferAttribute(message.positions, 3));
+      shell.setIndex(new THREE.BufferAttribute(message.index, 1));
+      shell.computeVertexNormals();
+      resolve(shell);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.error('Hollowing worker failed:', event.message);
+      reject(new Error('Hollowing failed.'));
+    };
+  });
+
+  const transfer = request.index ? [request.positions.buffer, request.index.buffer] : [request.positions.buffer];
+  worker.postMessage(request, transfer);
+  return { promise, cancel };
+};
+
+/**
+ * Material volume of a model before and after hollowing, in mm³. The shell volume is
+ * in geometry units; every drain hole takes out a cylinder as deep as the wall.
+ */
+export const summarizeHollow = (
+  solidVolume: number,
+  shellVolume: number,
+  scale: number,
+  holeCount: number,
+  settings: HollowSettings
+): HollowSummary => {
+  const drilled = holeCount * Math.PI * (settings.drainDiameter / 2) ** 2 * settings.wallThickness;
+  return {
+    solidVolume,
+    hollowVolume: Math.max(solidVolume - Math.abs(shellVolume) * scale ** 3 - drilled, 0),
+  };
+};
+
+// Welded, editable copy of a mesh; removed faces stay in place and are flagged
+interface EditableMesh {
+  positions: number[];
+  faces: number[];
+  removed: boolean[];
+  edgeFaces: Map<number, number[]>;
+}
+
+const toEditable = (geometry: THREE.BufferGeometry): EditableMesh => {
+  const { positions, faces } = weldVertices(geometry);
+  const mesh: EditableMesh = {
+    positions: Array.from(positions),
+    faces: Array.from(faces),
+    removed: new Array(faces.length / 3).fill(false),
+    edgeFaces: new Map(),
+  };
+  for (let f = 0; f < mesh.removed.length; f++) linkFace(mesh, f);
+  return mesh;
+};
+
+const faceEdges = (mesh: EditableMesh, f: number) => {
+  const [a, b, c] = mesh.faces.slice(f * 3, f * 3 + 3);
+  return [[a, b], [b, c], [c, a]];
+};
+
+const linkFace = (mesh: EditableMesh, f: number) => {
+  for (const [a, b] of faceEdges(mesh, f)) {
+    const key = edgeKey(a, b, KEY_BASE);
+    const list = mesh.edgeFaces.get(key);
+    if (list) list.push(f);
+    else mesh.edgeFaces.set(key, [f]);
+  }
+};
+
+const unlinkFace = (mesh: EditableMesh, f: number) => {
+  for (const [a, b] of faceEdges(mesh, f)) {
+    const key = edgeKey(a, b, KEY_BASE);
+    const list = mesh.edgeFaces.get(key)?.filter(other => other !== f) ?? [];
+    if (list.length > 0) mesh.edgeFaces.set(key, list);
+    else mesh.edgeFaces.delete(key);
+  }
+};
+
+const vertexOf = (mesh: EditableMesh, v: number, target = new THREE.Vector3()) =>
+  target.fromArray(mesh.positions, v * 3);
+
+// Splits an edge at its midpoint, together with every face that uses it
+const splitEdge = (mesh: EditableMesh, a: number, b: number) => {
+  const midpoint = vertexOf(mesh, a).add(vertexOf(mesh, b)).multiplyScalar(0.5);
+  const m = mesh.positions.length / 3;
+  mesh.positions.push(midpoint.x, midpoint.y, midpoint.z);
+
+  const touched: number[] = [];
+  for (const f of [...(mesh.edgeFaces.get(edgeKey(a, b, KEY_BASE)) ?? [])]) {
+    const corners = mesh.faces.slice(f * 3, f * 3 + 3);
+    const r = corners.findIndex((v, i) => (v === a || v === b) && (corners[(i + 1) % 3] === a || corners[(i + 1) % 3] === b));
+    const [x, y, c] = [corners[r], corners[(r + 1) % 3], corners[(r + 2) % 3]];
+
+    unlinkFace(mesh, f);
+    mesh.faces.splice(f * 3, 3, x, m, c);
+    const added = mesh.removed.length;
+    mesh.faces.push(m, y, c);
+    mesh.removed.push(mesh.removed[f]);
+    linkFace(mesh, f);
+    linkFace(mesh, added);
+    touched.push(f, added);
+  }
+  return touched;
+};
+
+// Axis of a drain hole: radial and axial position of a point relative to it
+interface HoleFrame {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+const axialOf = (frame: HoleFrame, p: THREE.Vector3) =>
+  new THREE.Vector3().subVectors(p, frame.point).dot(frame.normal);
+
+const radialOf = (frame: HoleFrame, p: THREE.Vector3) => {
+  const offset = new THREE.Vector3().subVectors(p, frame.point);
+  return offset.addScaledVector(frame.normal, -offset.dot(frame.normal)).length();
+};
+
+const faceCentroid = (mesh: EditableMesh, f: number) => {
+  const [a, b, c] = mesh.faces.slice(f * 3, f * 3 + 3);
+  return vertexOf(mesh, a).add(vertexOf(mesh, b)).add(vertexOf(mesh, c)).divideScalar(3);
+};
+
+/**
+ * Cuts the faces inside a hole's radius (within an axial window) out of a mesh and
+ * returns the rim as a loop of vertex ids, in the direction of the remaining faces.
+ * Faces around the hole are first split until their edges are short enough for the
+ * rim to follow the circle. Throws when the hole does not open exactly one rim.
+ */
+const openHole = (mesh: EditableMesh, frame: HoleFrame, radius: number, window: [number, number]) => {
+  const maxEdge = radius / 3;
+  const longestEdge = (f: number) => {
+    const edges = faceEdges(mesh, f).map(([a, b]) => ({ a, b, length: vertexOf(mesh, a).distanceTo(vertexOf(mesh, b)) }));
+    return edges.reduce((best, edge) => (edge.length > best.length ? edge : best));
+  };
+  const isNear = (f: number, margin: number) => {
+    const centroid = faceCentroid(mesh, f);
+    const axial = axialOf(frame, centroid);
+    return radialOf(frame, centroid) - margin < radius && axial > window[0] - margin && axial < window[1] + margin;
+  };
+
+  // 1. Refine around the rim
+  const queue: number[] = [];
+  for (let f = 0; f < mesh.removed.length; f++) {
+    if (!mesh.removed[f]) queue.push(f);
+  }
+  while (queue.length > 0) {
+    const f = queue.pop()!;
+    const edge = longestEdge(f);
+    if (edge.length <= maxEdge || !isNear(f, edge.length)) continue;
+    // Bisect along the longest-edge path, so no face gets split across a short side
+    let current = f;
+    let longest = edge;
+    for (;;) {
+      const neighbor = mesh.edgeFaces.get(edgeKey(longest.a, longest.b, KEY_BASE))?.find(other => other !== current);
+      const next = neighbor === undefined ? null : longestEdge(neighbor);
+      if (neighbor === undefined || next!.length <= longest.length * (1 + 1e-9)) break;
+      current = neighbor;
+      longest = next!;
+    }
+    // The rim of an earlier hole is already joined to its tube and must stay as it is
+    const sides = mesh.edgeFaces.get(edgeKey(longest.a, longest.b, KEY_BASE)) ?? [];
+    if (sides.some(other => mesh.removed[other])) continue;
+    queue.push(f, ...splitEdge(mesh, longest.a, longest.b));
+  }
+
+  // 2. Remove the faces inside the hole
+  const inside = new Set<number>();
+  for (let f = 0; f < mesh.removed.length; f++) {
+    if (!mesh.removed[f] && isNear(f, 0)) inside.add(f);
+  }
+  inside.forEach(f => {
+    mesh.removed[f] = true;
+  });
+
+  // 3. Rim edges belong to a remaining face on one side and a removed one on the other.
+  // Touching the opening of an earlier hole would merge the two rims.
+  const next = new Map<number, number>();
+  let overlaps = false;
+  for (const f of inside) {
+    for (const [a, b] of faceEdges(mesh, f)) {
+      const neighbors = mesh.edgeFaces.get(edgeKey(a, b, KEY_BASE)) ?? [];
+      if (neighbors.some(other => !mesh.removed[other])) next.set(b, a);
+      if (neighbors.some(other => mesh.removed[other] && !inside.has(other))) overlaps = true;
+    }
+  }
+  const start = next.keys().next().value;
+  const loop: number[] = [];
+  for (let v = start; v !== undefined && loop.length <= next.size; v = next.get(v)) {
+    if (loop.length > 0 && v === start) break;
+    loop.push(v);
+  }
+  if (overlaps || inside.size === 0 || loop.length < 3 || loop.length !== next.size) {
+    throw new Error('A drain hole does not fit at one of the picked points.');
+  }
+  return loop;
+};
+
+/**
+ * Joins an outer and an inner rim with a tube, advancing around the hole axis on
+ * whichever rim is behind. Rims run the way their remaining faces do, so each tube
+ * triangle takes its rim edge in the opposite direction.
+ */
+const bridgeRims = (
+  outer: THREE.Vector3[],
+  inner: THREE.Vector3[],
+  frame: HoleFrame,
+  target: number[]
+) => {
+  const { u, v } = planeBasis(frame.normal);
+  const angleOf = (p: THREE.Vector3) => {
+    const offset = new THREE.Vector3().subVectors(p, frame.point);
+    return Math.atan2(offset.dot(v), offset.dot(u));
+  };
+  const turn = (from: number, to: number) =>
+    THREE.MathUtils.euclideanModulo(to - from + Math.PI, Math.PI * 2) - Math.PI;
+
+  // Both rims are walked counter-clockwise around the axis, from the point closest to angle zero
+  const unwrap = (rim: THREE.Vector3[]) => {
+    let angles = rim.map(angleOf);
+    const total = angles.reduce((sum, angle, i) => sum + turn(angle, angles[(i + 1) % angles.length]), 0);
+    const reversed = total < 0;
+    let points = reversed ? [...rim].reverse() : rim;
+    if (reversed) angles = [...angles].reverse();
+    const first = angles.reduce((best, angle, i) => (Math.abs(angle) < Math.abs(angles[best]) ? i : best), 0);
+    points = [...points.slice(first), ...points.slice(0, first), points[first]];
+    angles = [...angles.slice(first), ...angles.slice(0, first), angles[first]];
+    const unwrapped = [angles[0]];
+    for (let i = 1; i < angles.length; i++) unwrapped.push(unwrapped[i - 1] + turn(angles[i - 1], angles[i]));
+    return { points, angles: unwrapped, reversed };
+  };
+
+  const push = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) =>
+    target.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+  const o = unwrap(outer);
+  const n = unwrap(inner);
+  const m = o.points.length - 1;
+  const k = n.points.length - 1;
+  let i = 0;
+  let j = 0;
+  while (i < m || j < k) {
+    if (j === k || (i < m && o.angles[i + 1] <= n.angles[j + 1])) {
+      const [a, b] = o.reversed ? [o.points[i], o.points[i + 1]] : [o.points[i + 1], o.points[i]];
+      push(a, b, n.points[j]);
+      i++;
+    } else {
+      const [a, b] = n.reversed ? [n.points[j], n.points[j + 1]] : [n.points[j + 1], n.points[j]];
+      push(a, b, o.points[i]);
+      j++;
+    }
+  }
+};
+
+/**
+ * Combines a model with its inner shell into a hollowed geometry and drills the
+ * drain holes through the wall. All sizes are in geometry units. Throws with a
+ * user-facing message when a hole cannot be drilled where it was picked.
+ */
+export const buildHollowGeometry = (
+  geometry: THREE.BufferGeometry,
+  shell: THREE.BufferGeometry,
+  holes: DrainHole[],
+  radius: number,
+  thickness: number
+) => {
+  const outer = toEditable(geometry);
+  const inner = toEditable(shell);
+  const tube: number[] = [];
+
+  for (const hole of holes) {
+    const frame = { point: new THREE.Vector3(...hole.point), normal: new THREE.Vector3(...hole.normal).normalize() };
+    // The outer rim sits around the picked point, the inner one about a wall deeper
+    const outerRim = openHole(outer, frame, radius, [-thickness / 2, thickness / 2 + radius]);
+    const innerRim = openHole(inner, frame, radius, [-(thickness * 1.5 + radius), -thickness / 2]);
+    bridgeRims(
+      outerRim.map(v => vertexOf(outer, v)),
+      innerRim.map(v => vertexOf(inner, v)),
+      frame,
+      tube
+    );
+  }
+
+  const positions: number[] = [];
+  for (const mesh of [outer, inner]) {
+    mesh.removed.forEach((removed, f) => {
+      if (removed) return;
+      for (const v of mesh.faces.slice(f * 3, f * 3 + 3)) positions.push(...mesh.positions.slice(v * 3, v * 3 + 3));
+    });
+  }
+  positions.push(...tube);
+
+  const result = new THREE.BufferGeometry();
+  result.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  result.computeVertexNormals();
+  return result;
+};
@@ -0,0 +1,13 @@
+import { computeInnerShell, HollowRequest, HollowMessage } from './hollow';
+
+const post = (message: HollowMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<HollowRequest>) => {
+  try {
+    const { positions, index } = computeInnerShell(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', positions, index }, [positions.buffer, index.buffer]);
+  } catch (error: any) {
+    console.error('Hollowing failed:', error);
+    post({ type: 'error', message: 'Hollowing failed.' });
+  }
+};
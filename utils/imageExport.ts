@@ -0,0 +1,151 @@
+import * as THREE from 'three';
+import { ImageExportOptions, LengthUnit } from '../types';
+import { formatLength } from './units';
+
+// Dimension lines whose projection is shorter than this (px) are seen edge-on and left out
+const MIN_DIMENSION_LENGTH = 24;
+
+// Exact world bounds of a mesh's own geometry, leaving out overlays rendered as its children
+const worldBounds = (mesh: THREE.Mesh) => {
+  mesh.updateWorldMatrix(true, false);
+  const position = mesh.geometry.getAttribute('position');
+  const box = new THREE.Box3();
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    box.expandByPoint(point.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld));
+  }
+  return box;
+};
+
+/**
+ * Draws the width, depth and height of a world-space box along three of its bottom
+ * and front edges, labeled in the display unit.
+ */
+const drawBoxDimensions = (
+  context: CanvasRenderingContext2D,
+  box: THREE.Box3,
+  camera: THREE.Camera,
+  unit: LengthUnit
+) => {
+  const { width, height } = context.canvas;
+  const toPixels = (point: THREE.Vector3) => {
+    const ndc = point.clone().project(camera);
+    return new THREE.Vector2((ndc.x + 1) / 2 * width, (1 - ndc.y) / 2 * height);
+  };
+  const { min, max } = box;
+  const edges: [THREE.Vector3, THREE.Vector3, number][] = [
+    [new THREE.Vector3(min.x, min.y, max.z), new THREE.Vector3(max.x, min.y, max.z), max.x - min.x],
+    [new THREE.Vector3(max.x, min.y, min.z), new THREE.Vector3(max.x, min.y, max.z), max.z - min.z],
+    [new THREE.Vector3(max.x, min.y, max.z), new THREE.Vector3(max.x, max.y, max.z), max.y - min.y],
+  ];
+
+  const fontSize = Math.max(12, Math.round(height / 60));
+  const tick = fontSize / 2;
+  context.font = `${fontSize}px ui-monospace, monospace`;
+  context.lineWidth = Math.max(1, fontSize / 12);
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  for (const [from, to, length] of edges) {
+    const a = toPixels(from);
+    const b = toPixels(to);
+    const along = b.clone().sub(a);
+    if (along.length() < MIN_DIMENSION_LENGTH) continue;
+    const across = new THREE.Vector2(-along.y, along.x).normalize().multiplyScalar(tick);
+
+    context.strokeStyle = '#f8fafc';
+    context.beginPath();
+    context.moveTo(a.x, a.y);
+    context.lineTo(b.x, b.y);
+    for (const end of [a, b]) {
+      context.moveTo(end.x - across.x, end.y - across.y);
+      context.lineTo(end.x + across.x, end.y + across.y);
+    }
+    context.stroke();
+
+    const label = formatLength(length, unit);
+    const middle = a.clone().add(b).multiplyScalar(0.5);
+    const labelWidth = context.measureText(label).width + fontSize;
+    context.fillStyle = 'rgba(15, 23, 42, 0.85)';
+    context.fillRect(middle.x - labelWidth / 2, middle.y - fontSize * 0.75, labelWidth, fontSize * 1.5);
+    context.fillStyle = '#f8fafc';
+    context.fillText(label, middle.x, middle.y);
+  }
+};
+
+/**
+ * Renders the scene from the viewer's camera into an image of the given size,
+ * independent of the on-screen canvas. The vertical field of view is kept, so a
+ * different aspect ratio widens or narrows the picture. Objects flagged with
+ * `userData.background` are hidden for a transparent background. Like the standard
+ * views, the render happens within one task and the canvas is restored afterwards.
+ */
+export const renderImage = (
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  { width, height, transparent, dimensions }: ImageExportOptions,
+  unit: LengthUnit
+) => {
+  const context = gl.getContext();
+  const limit = Math.min(context.getParameter(context.MAX_RENDERBUFFER_SIZE), ...context.getParameter(context.MAX_VIEWPORT_DIMS));
+  if (width > limit || height > limit) {
+    throw new Error(`This graphics card renders images up to ${limit} px per side.`);
+  }
+
+  const view = camera.clone() as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  if (view instanceof THREE.PerspectiveCamera) {
+    view.aspect = width / height;
+  } else {
+    const halfWidth = (view.top - view.bottom) / 2 * (width / height);
+    const center = (view.left + view.right) / 2;
+    view.left = center - halfWidth;
+    view.right = center + halfWidth;
+  }
+  view.updateProjectionMatrix();
+
+  // Everything changed here is put back below
+  const size = gl.getSize(new THREE.Vector2());
+  const pixelRatio = gl.getPixelRatio();
+  const clearColor = gl.getClearColor(new THREE.Color());
+  const clearAlpha = gl.getClearAlpha();
+  const background = scene.background;
+  const hidden: THREE.Object3D[] = [];
+  if (transparent) {
+    scene.background = null;
+    gl.setClearColor(0x000000, 0);
+    scene.traverseVisible(child => {
+      if (child.userData.background) hidden.push(child);
+    });
+    hidden.forEach(child => {
+      child.visible = false;
+    });
+  }
+
+  gl.setPixelRatio(1);
+  gl.setSize(width, height, false);
+  gl.render(scene, view);
+  const image = document.createElement('canvas');
+  image.width = width;
+  image.height = height;
+  const image2d = image.getContext('2d')!;
+  image2d.drawImage(gl.domElement, 0, 0);
+
+  if (dimensions) {
+    scene.traverseVisible(child => {
+      if ((child as THREE.Mesh).isMesh && child.userData.sceneObjectId) {
+        drawBoxDimensions(image2d, worldBounds(child as THREE.Mesh), view, unit);
+      }
+    });
+  }
+
+  hidden.forEach(child => {
+    child.visible = true;
+  });
+  scene.background = background;
+  gl.setClearColor(clearColor, clearAlpha);
+  gl.setPixelRatio(pixelRatio);
+  gl.setSize(size.x, size.y, false);
+  gl.render(scene, camera);
+  return image;
+};
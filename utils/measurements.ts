@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { Measurement, MeasurementKind, LengthUnit } from '../types';
+import { formatLength, UNIT_FACTORS } from './units';
+
+export const MEASUREMENT_KINDS: { id: MeasurementKind, label: string, pointCount: number, hint: string }[] = [
+  { id: 'distance', label: 'Distance', pointCount: 2, hint: 'Click 2 points on model' },
+  { id: 'angle', label: 'Angle', pointCount: 3, hint: 'Click 3 points, the corner second' },
+  { id: 'radius', label: 'Radius', pointCount: 3, hint: 'Click 3 points around a hole or arc' },
+  { id: 'pointToFace', label: 'Point to Face', pointCount: 2, hint: 'Click a point, then a face' },
+];
+
+export const measurementKind = (kind: MeasurementKind) => MEASUREMENT_KINDS.find(k => k.id === kind)!;
+
+/**
+ * Circle through three points, or null when they are (nearly) collinear.
+ */
+export const circleFromPoints = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+  const ab = new THREE.Vector3().subVectors(b, a);
+  const ac = new THREE.Vector3().subVectors(c, a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  const lengthSq = normal.lengthSq();
+  if (lengthSq < 1e-12) return null;
+
+  // Circumcenter relative to a
+  const toCenter = new THREE.Vector3()
+    .crossVectors(normal, ab).multiplyScalar(ac.lengthSq())
+    .add(new THREE.Vector3().crossVectors(ac, normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * lengthSq);
+
+  return { center: a.clone().add(toCenter), normal: normal.normalize(), radius: toCenter.length() };
+};
+
+/**
+ * Measured value in mm (degrees for angles) for an object at the given uniform scale.
+ * Returns null when the picked points do not define a result.
+ */
+export const measurementValue = (measurement: Measurement, scale: number) => {
+  const points = measurement.points.map(p => new THREE.Vector3(...p));
+  switch (measurement.kind) {
+    case 'distance':
+      return points[0].distanceTo(points[1]) * scale;
+    case 'angle': {
+      const ba = new THREE.Vector3().subVectors(points[0], points[1]);
+      const bc = new THREE.Vector3().subVectors(points[2], points[1]);
+      if (ba.lengthSq() === 0 || bc.lengthSq() === 0) return null;
+      return THREE.MathUtils.radToDeg(ba.angleTo(bc));
+    }
+    case 'radius': {
+      const circle = circleFromPoints(points[0], points[1], points[2]);
+      return circle ? circle.radius * scale : null;
+    }
+    case 'pointToFace': {
+      if (!measurement.normal) return null;
+      const normal = new THREE.Vector3(...measurement.normal).normalize();
+      return Math.abs(new THREE.Vector3().subVectors(points[0], points[1]).dot(normal)) * scale;
+    }
+  }
+};
+
+export const formatMeasurement = (measurement: Measurement, scale: number, unit: LengthUnit) => {
+  const value = measurementValue(measurement, scale);
+  if (value === null) return '—';
+  if (measurement.kind === 'angle') return `${value.toFixed(1)}°`;
+  if (measurement.kind === 'radius') {
+    return `R ${formatLength(value, unit)} (Ø ${(value * 2 / UNIT_FACTORS[unit]).toFixed(2)})`;
+  }
+  return formatLength(value, unit);
+};
+
+/**
+ * Absolute X/Y/Z components (viewer axes, mm) of a distance measurement on an object
+ * with the given rotation and uniform scale.
+ */
+export const measurementDeltas = (measurement: Measurement, rotation: THREE.Quaternion, scale: number) => {
+  if (measurement.kind !== 'distance') return null;
+  const [a, b] = measurement.points.map(p => new THREE.Vector3(...p));
+  const delta = b.sub(a).applyQuaternion(rotation).multiplyScalar(scale);
+  return [Math.abs(delta.x), Math.abs(delta.y), Math.abs(delta.z)] as [number, number, number];
+};
+
+export const formatDeltas = (deltas: [number, number, number], unit: LengthUnit) => {
+  const [dx, dy, dz] = deltas.map(d => (d / UNIT_FACTORS[unit]).toFixed(2));
+  return `ΔX ${dx} · ΔY ${dy} · ΔZ ${dz}`;
+};
+
+/**
+ * Moves a measurement along with a geometry that was transformed by `matrix`,
+ * so it stays on the same features.
+ */
+export const transformMeasurement = (measurement: Measurement, matrix: THREE.Matrix4): Measurement => {
+  const points = measurement.points.map(p => new THREE.Vector3(...p).applyMatrix4(matrix).toArray());
+  if (!measurement.normal) return { ...measurement, points };
+  const normal = new THREE.Vector3(...measurement.normal)
+    .applyMatrix3(new THREE.Matrix3().getNormalMatrix(matrix))
+    .normalize();
+  return { ...measurement, points, normal: normal.toArray() };
+};
@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+import { CutOptions, SectionPlane } from '../types';
+import { forEachTriangle } from './meshMetrics';
+import { computeCrossSection, buildCapShapes, planeBasis, loopDepths, pointInPolygon, PLANE_NUDGE } from './crossSection';
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = {
+  pins: false,
+  pinDiameter: 4,
+  pinDepth: 6,
+  layFlat: true,
+};
+
+const PIN_SEGMENTS = 24;
+const PIN_GRID = 24; // Candidate positions per contour side
+const MIN_PIN_DEPTH = 1; // mm; shallower holes are left out
+const PIN_WALL = 1; // mm of material kept below the bottom of a hole
+
+const distanceToSegment = ([px, py]: [number, number], [ax, ay]: [number, number], [bx, by]: [number, number]) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? THREE.MathUtils.clamp(((px - ax) * dx + (py - ay) * dy) / lengthSq, 0, 1) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Up to two pin positions (plane coordinates) per solid region of the cut, as far
+ * apart as possible while keeping a pin diameter of material around each hole.
+ */
+const placePins = (loops: [number, number][][], diameter: number) => {
+  const depths = loopDepths(loops);
+  const pins: [number, number][] = [];
+
+  loops.forEach((loop, i) => {
+    if (depths[i] % 2 !== 0) return;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const [x, y] of loop) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+
+    // Grid points in this region's material, i.e. inside no deeper contour
+    const candidates: [number, number][] = [];
+    for (let gx = 0; gx < PIN_GRID; gx++) {
+      for (let gy = 0; gy < PIN_GRID; gy++) {
+        const point: [number, number] = [
+          minX + ((gx + 0.5) / PIN_GRID) * (maxX - minX),
+          minY + ((gy + 0.5) / PIN_GRID) * (maxY - minY),
+        ];
+        if (!pointInPolygon(point, loop)) continue;
+        if (loops.filter(other => pointInPolygon(point, other)).length !== depths[i] + 1) continue;
+        let clearance = Infinity;
+        for (const other of loops) {
+          for (let k = 0; k < other.length && clearance >= diameter; k++) {
+            clearance = Math.min(clearance, distanceToSegment(point, other[k], other[(k + 1) % other.length]));
+          }
+        }
+        if (clearance >= diameter) candidates.push(point);
+      }
+    }
+    if (candidates.length === 0) return;
+
+    // The most distant pair fixes rotation too; small regions get a single pin
+    let best: [[number, number], [number, number]] = [candidates[0], candidates[0]];
+    let bestDistance = 0;
+    for (let a = 0; a < candidates.length; a++) {
+      for (let b = a + 1; b < candidates.length; b++) {
+        const distance = Math.hypot(candidates[a][0] - candidates[b][0], candidates[a][1] - candidates[b][1]);
+        if (distance > bestDistance) {
+          bestDistance = distance;
+          best = [candidates[a], candidates[b]];
+        }
+      }
+    }
+    if (bestDistance >= diameter * 2) pins.push(...best);
+    else pins.push(candidates[Math.floor(candidates.length / 2)]);
+  });
+
+  return pins;
+};
+
+const circle = ([x, y]: [number, number], radius: number): [number, number][] =>
+  Array.from({ length: PIN_SEGMENTS }, (_, k) => {
+    const angle = (k / PIN_SEGMENTS) * Math.PI * 2;
+    return [x + Math.cos(angle) * radius, y + Math.sin(angle) * radius];
+  });
+
+// Appends a triangle, flipping it when needed so it faces `facing`
+const pushTriangle = (target: number[], a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, facing: THREE.Vector3) => {
+  const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+  const [second, third] = normal.dot(facing) >= 0 ? [b, c] : [c, b];
+  target.push(a.x, a.y, a.z, second.x, second.y, second.z, third.x, third.y, third.z);
+};
+
+/**
+ * Splits a geometry (placed in the world by `matrix`) along a section plane into the
+ * part behind the plane and the part in front of it. Both are closed with a cap on the
+ * cut; with `pins`, matching pin holes are sunk into the caps. The parts are returned in
+ * the original geometry's coordinates. Open contours (from meshes that are not
+ * watertight) cannot be capped and are counted instead.
+ */
+export const cutGeometry = (
+  geometry: THREE.BufferGeometry,
+  matrix: THREE.Matrix4,
+  plane: SectionPlane,
+  options: CutOptions
+) => {
+  const normal = new THREE.Vector3(...plane.normal).normalize();
+  const offset = plane.offset + PLANE_NUDGE;
+  const section = computeCrossSection(geometry, matrix, plane);
+  if (section.loops.length === 0 && section.openPaths.length === 0) {
+    throw new Error('The cut plane does not pass through the model.');
+  }
+
+  // Pin positions in the world, checked below against the material on both sides
+  const { u, v } = planeBasis(normal);
+  const spots = options.pins ? placePins(section.loops, options.pinDiameter) : [];
+  const origins = spots.map(([x, y]) => u.clone().multiplyScalar(x).addScaledVector(v, y).addScaledVector(normal, plane.offset));
+  const room = spots.map(() => [Infinity, Infinity]);
+  const ray = new THREE.Ray();
+  const hit = new THREE.Vector3();
+  // Cut points by their plane coordinates, so the caps reuse the exact same vertices
+  const cutPoints = new Map<string, THREE.Vector3>();
+
+  // 1. Clip every triangle against the plane; each side keeps its own polygon
+  const position = geometry.getAttribute('position');
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const sides: number[][] = [[], []];
+  const polygons: THREE.Vector3[][] = [[], []];
+
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    corners[0].fromBufferAttribute(position, ia).applyMatrix4(matrix);
+    corners[1].fromBufferAttribute(position, ib).applyMatrix4(matrix);
+    corners[2].fromBufferAttribute(position, ic).applyMatrix4(matrix);
+    const d = corners.map(p => p.dot(normal) - offset);
+
+    // Distance to the surface behind and in front of each pin
+    origins.forEach((origin, k) => {
+      [-1, 1].forEach((direction, side) => {
+        ray.set(origin, normal.clone().multiplyScalar(direction));
+        if (ray.intersectTriangle(corners[0], corners[1], corners[2], false, hit)) {
+          room[k][side] = Math.min(room[k][side], hit.distanceTo(origin));
+        }
+      });
+    });
+
+    polygons[0].length = 0;
+    polygons[1].length = 0;
+    for (let k = 0; k < 3; k++) {
+      const a = k;
+      const b = (k + 1) % 3;
+      polygons[d[a] >= 0 ? 1 : 0].push(corners[a].clone());
+      if ((d[a] >= 0) === (d[b] >= 0)) continue;
+      // Same interpolation as the cross-section, so the cap meets the cut edges
+      const [lo, hi] = d[a] < d[b] ? [a, b] : [b, a];
+      const point = corners[lo].clone().lerp(corners[hi], d[lo] / (d[lo] - d[hi]));
+      cutPoints.set(`${point.dot(u)}_${point.dot(v)}`, point);
+      polygons[0].push(point);
+      polygons[1].push(point.clone());
+    }
+    polygons.forEach((polygon, side) => {
+      for (let k = 1; k + 1 < polygon.length; k++) {
+        const [p, q, r] = [polygon[0], polygon[k], polygon[k + 1]];
+        sides[side].push(p.x, p.y, p.z, q.x, q.y, q.z, r.x, r.y, r.z);
+      }
+    });
+  });
+
+  // 2. Pin holes share one depth that fits every accepted position
+  const accepted = spots
+    .map((spot, k) => ({ spot, room: Math.min(...room[k]) - PIN_WALL }))
+    .filter(pin => pin.room >= MIN_PIN_DEPTH);
+  const pinDepth = accepted.length > 0 ? Math.min(options.pinDepth, ...accepted.map(pin => pin.room)) : 0;
+  const radius = options.pinDiameter / 2;
+  const holes = accepted.map(pin => circle(pin.spot, radius));
+
+  // 3. Cap both sides; the part behind the plane faces along the normal, the other against it
+  const toWorld = ([x, y]: [number, number], depth: number) =>
+    u.clone().multiplyScalar(x).addScaledVector(v, y).addScaledVector(normal, plane.offset + depth);
+  const vertex = ({ x, y }: THREE.Vector2) => cutPoints.get(`${x}_${y}`) ?? toWorld([x, y], 0);
+  for (const shape of buildCapShapes(section, holes)) {
+    const { shape: contour, holes: shapeHoles } = shape.extractPoints(1);
+    const faces = THREE.ShapeUtils.triangulateShape(contour, shapeHoles);
+    const points = [...contour, ...shapeHoles.flat()].map(vertex);
+    for (const [a, b, c] of faces) {
+      pushTriangle(sides[0], points[a], points[b], points[c], normal);
+      pushTriangle(sides[1], points[a], points[b], points[c], normal.clone().negate());
+    }
+  }
+
+  // 4. Each hole is a tube down to a flat bottom, facing into the hole
+  for (const { spot } of accepted) {
+    const ring = circle(spot, radius);
+    [-1, 1].forEach((direction, side) => {
+      const center = toWorld(spot, direction * pinDepth);
+      const inward = normal.clone().multiplyScalar(-direction);
+      ring.forEach((point, k) => {
+        const next = ring[(k + 1) % ring.length];
+        const top = toWorld(point, 0);
+        const topNext = toWorld(next, 0);
+        const bottom = toWorld(point, direction * pinDepth);
+        const bottomNext = toWorld(next, direction * pinDepth);
+        const facing = toWorld(spot, 0).sub(top);
+        pushTriangle(sides[side], top, bottom, bottomNext, facing);
+        pushTriangle(sides[side], top, bottomNext, topNext, facing);
+        pushTriangle(sides[side], center, bottom, bottomNext, inward);
+      });
+    });
+  }
+
+  // 5. Back into the original geometry's coordinates
+  const inverse = matrix.clone().invert();
+  const parts = sides
+    .filter(positions => positions.length > 0)
+    .map(positions => {
+      const part = new THREE.BufferGeometry();
+      part.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+      part.applyMatrix4(inverse);
+      return part;
+    });
+  if (parts.length < 2) {
+    parts.forEach(part => part.dispose());
+    throw new Error('The cut plane does not pass through the model.');
+  }
+
+  return {
+    parts,
+    // Outward normal of each part's cut face in the world, for laying it flat
+    cutNormals: [normal.clone(), normal.clone().negate()],
+    openContours: section.openPaths.length,
+    pins: { count: accepted.length, depth: pinDepth },
+  };
+};
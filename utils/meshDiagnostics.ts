@@ -0,0 +1,288 @@
+import * as THREE from 'three';
+import { MeshDiagnostics, MeshIssue } from '../types';
+import { forEachTriangle } from './meshMetrics';
+
+// Triangles with less area than this (mm²) are considered degenerate
+const DEGENERATE_AREA = 1e-10;
+
+export interface WeldedMesh {
+  faces: Uint32Array; // 3 welded vertex ids per triangle
+  vertexMap: Uint32Array; // original position index -> welded vertex id
+  sourceIndices: Uint32Array; // 3 original position indices per triangle
+  positions: Float32Array; // xyz per welded vertex
+  vertexCount: number;
+}
+
+/**
+ * Merges vertices that share the same position (within tolerance) so that
+ * STL triangle soup can be treated as a connected surface.
+ */
+export const weldVertices = (geometry: THREE.BufferGeometry, tolerance = 1e-5): WeldedMesh => {
+  const position = geometry.getAttribute('position');
+  const lookup = new Map<string, number>();
+  const vertexMap = new Uint32Array(position.count);
+  const welded: number[] = [];
+
+  for (let i = 0; i < position.count; i++) {
+    const x = position.getX(i);
+    const y = position.getY(i);
+    const z = position.getZ(i);
+    const key = `${Math.round(x / tolerance)}_${Math.round(y / tolerance)}_${Math.round(z / tolerance)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = welded.length / 3;
+      lookup.set(key, id);
+      welded.push(x, y, z);
+    }
+    vertexMap[i] = id;
+  }
+
+  const index = geometry.getIndex();
+  const triangleCount = Math.floor((index ? index.count : position.count) / 3);
+  const faces = new Uint32Array(triangleCount * 3);
+  const sourceIndices = new Uint32Array(triangleCount * 3);
+  forEachTriangle(geometry, (a, b, c, f) => {
+    sourceIndices[f * 3] = a;
+    sourceIndices[f * 3 + 1] = b;
+    sourceIndices[f * 3 + 2] = c;
+    faces[f * 3] = vertexMap[a];
+    faces[f * 3 + 1] = vertexMap[b];
+    faces[f * 3 + 2] = vertexMap[c];
+  });
+
+  return {
+    faces,
+    vertexMap,
+    sourceIndices,
+    positions: new Float32Array(welded),
+    vertexCount: welded.length / 3,
+  };
+};
+
+export const edgeKey = (a: number, b: number, vertexCount: number) =>
+  a < b ? a * vertexCount + b : b * vertexCount + a;
+
+/**
+ * Maps every undirected edge to the faces using it. Faces whose corners
+ * collapse onto the same welded vertex are skipped as they have no real edges.
+ */
+export const buildEdgeMap = (faces: Uint32Array, vertexCount: number) => {
+  const edges = new Map<number, number[]>();
+  const triangleCount = faces.length / 3;
+
+  for (let f = 0; f < triangleCount; f++) {
+    const a = faces[f * 3];
+    const b = faces[f * 3 + 1];
+    const c = faces[f * 3 + 2];
+    if (a === b || b === c || a === c) continue;
+
+    for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+      const key = edgeKey(u, v, vertexCount);
+      const list = edges.get(key);
+      if (list) list.push(f);
+      else edges.set(key, [f]);
+    }
+  }
+  return edges;
+};
+
+// True when face f traverses the directed edge u -> v
+const hasDirectedEdge = (faces: Uint32Array, f: number, u: number, v: number) => {
+  const a = faces[f * 3];
+  const b = faces[f * 3 + 1];
+  const c = faces[f * 3 + 2];
+  return (a === u && b === v) || (b === u && c === v) || (c === u && a === v);
+};
+
+export const triangleArea = (positions: ArrayLike<number>, a: number, b: number, c: number) => {
+  const abx = positions[b * 3] - positions[a * 3];
+  const aby = positions[b * 3 + 1] - positions[a * 3 + 1];
+  const abz = positions[b * 3 + 2] - positions[a * 3 + 2];
+  const acx = positions[c * 3] - positions[a * 3];
+  const acy = positions[c * 3 + 1] - positions[a * 3 + 1];
+  const acz = positions[c * 3 + 2] - positions[a * 3 + 2];
+  const cx = aby * acz - abz * acy;
+  const cy = abz * acx - abx * acz;
+  const cz = abx * acy - aby * acx;
+  return Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+};
+
+export interface FaceOrientation {
+  shellOf: Int32Array; // shell id per face, -1 for collapsed faces
+  flipped: Uint8Array; // 1 if the face is wound against the rest of its shell
+  shellSizes: number[];
+}
+
+/**
+ * Groups faces into connected shells and decides, per shell, which faces need
+ * flipping so that winding is consistent and closed shells point outwards.
+ */
+export const orientFaces = (
+  faces: Uint32Array,
+  positions: Float32Array,
+  edges: Map<number, number[]>,
+  vertexCount: number
+): FaceOrientation => {
+  const triangleCount = faces.length / 3;
+  const shellOf = new Int32Array(triangleCount).fill(-1);
+  const relative = new Uint8Array(triangleCount); // orientation relative to shell seed
+  const flipped = new Uint8Array(triangleCount);
+  const shellSizes: number[] = [];
+
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (shellOf[seed] !== -1) continue;
+    const a0 = faces[seed * 3];
+    const b0 = faces[seed * 3 + 1];
+    const c0 = faces[seed * 3 + 2];
+    if (a0 === b0 || b0 === c0 || a0 === c0) continue;
+
+    const shell = shellSizes.length;
+    const members: number[] = [seed];
+    shellOf[seed] = shell;
+    let boundary = false;
+
+    // Breadth-first walk across shared edges
+    for (let head = 0; head < members.length; head++) {
+      const f = members[head];
+      const verts = [faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]];
+      for (let k = 0; k < 3; k++) {
+        const u = verts[k];
+        const v = verts[(k + 1) % 3];
+        const neighbours = edges.get(edgeKey(u, v, vertexCount));
+        if (!neighbours) continue;
+        if (neighbours.length === 1) boundary = true;
+
+        for (const g of neighbours) {
+          if (g === f || shellOf[g] !== -1) continue;
+          shellOf[g] = shell;
+          // A consistent neighbour traverses the shared edge in the opposite direction
+          const sameDirection = hasDirectedEdge(faces, g, u, v);
+          relative[g] = sameDirection ? 1 - relative[f] : relative[f];
+          members.push(g);
+        }
+      }
+    }
+
+    // Choose the reference orientation for this shell
+    let agreeing = 0;
+    let signedVolume = 0;
+    for (const f of members) {
+      if (relative[f] === 0) agreeing++;
+      const a = faces[f * 3];
+      const b = faces[f * 3 + 1];
+      const c = faces[f * 3 + 2];
+      const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2];
+      const bx = positions[b * 3], by = positions[b * 3 + 1], bz = positions[b * 3 + 2];
+      const cx = positions[c * 3], cy = positions[c * 3 + 1], cz = positions[c * 3 + 2];
+      const vol = (ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx)) / 6;
+      signedVolume += relative[f] === 0 ? vol : -vol;
+    }
+
+    let reference: number;
+    if (!boundary) {
+      // Closed shell: the seed orientation is correct if it encloses positive volume
+      reference = signedVolume >= 0 ? 0 : 1;
+    } else {
+      // Open shell: trust the majority
+      reference = agreeing * 2 >= members.length ? 0 : 1;
+    }
+    for (const f of members) {
+      flipped[f] = relative[f] === reference ? 0 : 1;
+    }
+    shellSizes.push(members.length);
+  }
+
+  return { shellOf, flipped, shellSizes };
+};
+
+/**
+ * Runs the integrity checks on a loaded geometry. Highlight indices refer to the
+ * geometry's original position attribute so overlays line up with the render mesh.
+ */
+export const diagnoseMesh = (geometry: THREE.BufferGeometry): MeshDiagnostics => {
+  const welded = weldVertices(geometry);
+  const { faces, positions, vertexCount } = welded;
+  const triangleCount = faces.length / 3;
+  const edges = buildEdgeMap(faces, vertexCount);
+
+  // Representative original index for each welded vertex, used for edge overlays
+  const representative = new Uint32Array(vertexCount);
+  for (let i = welded.vertexMap.length - 1; i >= 0; i--) {
+    representative[welded.vertexMap[i]] = i;
+  }
+
+  const boundaryEdges: number[] = [];
+  const nonManifoldEdges: number[] = [];
+  edges.forEach((list, key) => {
+    if (list.length === 2) return;
+    const u = Math.floor(key / vertexCount);
+    const v = key % vertexCount;
+    const target = list.length === 1 ? boundaryEdges : nonManifoldEdges;
+    target.push(representative[u], representative[v]);
+  });
+
+  const degenerateFaces: number[] = [];
+  for (let f = 0; f < triangleCount; f++) {
+    const area = triangleArea(positions, faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]);
+    if (area < DEGENERATE_AREA) degenerateFaces.push(f);
+  }
+
+  const { shellOf, flipped, shellSizes } = orientFaces(faces, positions, edges, vertexCount);
+  const flippedFaces: number[] = [];
+  for (let f = 0; f < triangleCount; f++) {
+    if (flipped[f]) flippedFaces.push(f);
+  }
+
+  // Everything outside the largest shell counts as loose
+  let mainShell = 0;
+  shellSizes.forEach((size, i) => {
+    if (size > shellSizes[mainShell]) mainShell = i;
+  });
+  const looseShellFaces: number[] = [];
+  for (let f = 0; f < triangleCount; f++) {
+    if (shellOf[f] !== -1 && shellOf[f] !== mainShell) looseShellFaces.push(f);
+  }
+
+  const issues: MeshIssue[] = [
+    { category: 'boundaryEdges', label: 'Open Edges', kind: 'edges', count: boundaryEdges.length / 2, indices: boundaryEdges },
+    { category: 'nonManifoldEdges', label: 'Non-Manifold Edges', kind: 'edges', count: nonManifoldEdges.length / 2, indices: nonManifoldEdges },
+    { category: 'flippedFaces', label: 'Flipped Faces', kind: 'faces', count: flippedFaces.length, indices: flippedFaces },
+    { category: 'degenerateFaces', label: 'Degenerate Triangles', kind: 'faces', count: degenerateFaces.length, indices: degenerateFaces },
+    { category: 'looseShells', label: 'Loose Shells', kind: 'faces', count: Math.max(0, shellSizes.length - 1), indices: looseShellFaces },
+  ];
+
+  return {
+    triangleCount,
+    vertexCount,
+    shellCount: shellSizes.length,
+    isWatertight: boundaryEdges.length === 0 && nonManifoldEdges.length === 0,
+    issues,
+  };
+};
+
+/**
+ * Builds overlay geometry for an issue: line segments for edge issues,
+ * a triangle soup for face issues. Positions come from the render geometry.
+ */
+export const buildIssueGeometry = (geometry: THREE.BufferGeometry, issue: MeshIssue) => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const out: number[] = [];
+
+  if (issue.kind === 'edges') {
+    for (const i of issue.indices) {
+      out.push(position.getX(i), position.getY(i), position.getZ(i));
+    }
+  } else {
+    for (const f of issue.indices) {
+      for (let k = 0; k < 3; k++) {
+        const i = index ? index.getX(f * 3 + k) : f * 3 + k;
+        out.push(position.getX(i), position.getY(i), position.getZ(i));
+      }
+    }
+  }
+
+  const overlay = new THREE.BufferGeometry();
+  overlay.setAttribute('position', new THREE.Float32BufferAttribute(out, 3));
+  return overlay;
+};
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import { MaterialPreset, MeshMetrics } from '../types';
+
+// Densities in g/cm³ for common print materials
+export const MATERIAL_PRESETS: MaterialPreset[] = [
+  { id: 'pla', name: 'PLA', density: 1.24 },
+  { id: 'petg', name: 'PETG', density: 1.27 },
+  { id: 'abs', name: 'ABS', density: 1.04 },
+  { id: 'resin', name: 'Resin (Standard)', density: 1.15 },
+];
+
+/**
+ * Iterates over every triangle of a geometry, indexed or not.
+ * The callback receives the three vertex indices into the position attribute.
+ */
+export const forEachTriangle = (
+  geometry: THREE.BufferGeometry,
+  callback: (a: number, b: number, c: number, faceIndex: number) => void
+) => {
+  const index = geometry.getIndex();
+  const position = geometry.getAttribute('position');
+  if (!position) return;
+
+  const count = index ? index.count : position.count;
+  for (let i = 0, face = 0; i + 2 < count; i += 3, face++) {
+    if (index) {
+      callback(index.getX(i), index.getX(i + 1), index.getX(i + 2), face);
+    } else {
+      callback(i, i + 1, i + 2, face);
+    }
+  }
+};
+
+/**
+ * Computes the enclosed volume (signed tetrahedron sum) and the total surface area
+ * of a geometry in its current coordinates. Volume is negative for inverted meshes.
+ */
+export const computeMeshMetrics = (geometry: THREE.BufferGeometry): MeshMetrics => {
+  const position = geometry.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+
+  let signedVolume = 0;
+  let surfaceArea = 0;
+
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    a.fromBufferAttribute(position, ia);
+    b.fromBufferAttribute(position, ib);
+    c.fromBufferAttribute(position, ic);
+
+    // Tetrahedron formed with the origin
+    signedVolume += a.dot(cross.crossVectors(b, c)) / 6;
+
+    // Triangle area
+    b.sub(a);
+    c.sub(a);
+    surfaceArea += cross.crossVectors(b, c).length() / 2;
+  });
+
+  return { signedVolume, surfaceArea };
+};
+
+/**
+ * Axis-aligned bounds of a geometry after rotation and uniform scale, computed
+ * vertex by vertex so the (possibly huge) position buffer is never copied.
+ */
+export const computeTransformedBounds = (
+  geometry: THREE.BufferGeometry,
+  rotation: THREE.Quaternion,
+  scale: number
+) => {
+  const position = geometry.getAttribute('position');
+  const point = new THREE.Vector3();
+  const box = new THREE.Box3();
+  for (let i = 0; i < position.count; i++) {
+    box.expandByPoint(point.fromBufferAttribute(position, i).applyQuaternion(rotation));
+  }
+  box.min.multiplyScalar(scale);
+  box.max.multiplyScalar(scale);
+  return box;
+};
+
+// Volume in mm³, density in g/cm³, result in grams
+export const estimateMass = (volumeMm3: number, density: number) => (Math.abs(volumeMm3) / 1000) * density;
@@ -0,0 +1,155 @@
+import * as THREE from 'three';
+import { MeshRepairReport } from '../types';
+import { weldVertices, buildEdgeMap, orientFaces, triangleArea, edgeKey } from './meshDiagnostics';
+
+// Triangles with less area than this (mm²) are dropped
+const DEGENERATE_AREA = 1e-10;
+
+// Holes with more boundary edges than this are left open
+const MAX_HOLE_EDGES = 1000;
+
+/**
+ * Traces closed loops of boundary edges. Each loop is returned in the direction
+ * the filling triangles must traverse to match the surrounding winding.
+ * Loops touching a vertex with more than one open edge are skipped.
+ */
+const findHoleLoops = (faces: number[], edges: Map<number, number[]>, vertexCount: number) => {
+  const next = new Map<number, number>();
+  const ambiguous = new Set<number>();
+
+  edges.forEach((list) => {
+    if (list.length !== 1) return;
+    const f = list[0];
+    const verts = [faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]];
+    for (let k = 0; k < 3; k++) {
+      const u = verts[k];
+      const v = verts[(k + 1) % 3];
+      if (edges.get(edgeKey(u, v, vertexCount)) !== list) continue;
+      // The face runs u -> v, so the hole runs v -> u
+      if (next.has(v)) ambiguous.add(v);
+      next.set(v, u);
+    }
+  });
+
+  const loops: number[][] = [];
+  const visited = new Set<number>();
+  next.forEach((_, start) => {
+    if (visited.has(start)) return;
+    const loop: number[] = [];
+    let current: number | undefined = start;
+    let valid = true;
+    while (current !== undefined && !visited.has(current)) {
+      if (ambiguous.has(current)) valid = false;
+      visited.add(current);
+      loop.push(current);
+      current = next.get(current);
+    }
+    if (valid && current === start && loop.length >= 3 && loop.length <= MAX_HOLE_EDGES) {
+      loops.push(loop);
+    }
+  });
+  return loops;
+};
+
+/**
+ * Repairs common STL defects: merges duplicate vertices, drops degenerate and
+ * duplicate triangles, unifies winding, fills simple holes and recomputes normals.
+ * Returns a new non-indexed geometry and a summary of the changes.
+ */
+export const repairMesh = (geometry: THREE.BufferGeometry) => {
+  const welded = weldVertices(geometry);
+  const positions = Array.from(welded.positions);
+  const triangleCountBefore = welded.faces.length / 3;
+
+  // 1. Drop collapsed, zero-area and duplicate triangles
+  const faces: number[] = [];
+  const seen = new Set<string>();
+  let degenerateRemoved = 0;
+  let duplicatesRemoved = 0;
+  for (let f = 0; f < triangleCountBefore; f++) {
+    const a = welded.faces[f * 3];
+    const b = welded.faces[f * 3 + 1];
+    const c = welded.faces[f * 3 + 2];
+    if (a === b || b === c || a === c || triangleArea(positions, a, b, c) < DEGENERATE_AREA) {
+      degenerateRemoved++;
+      continue;
+    }
+    const key = [a, b, c].sort((x, y) => x - y).join('_');
+    if (seen.has(key)) {
+      duplicatesRemoved++;
+      continue;
+    }
+    seen.add(key);
+    faces.push(a, b, c);
+  }
+
+  // 2. Unify winding per shell
+  let faceArray = Uint32Array.from(faces);
+  let edges = buildEdgeMap(faceArray, welded.vertexCount);
+  const { flipped } = orientFaces(faceArray, welded.positions, edges, welded.vertexCount);
+  let facesFlipped = 0;
+  for (let f = 0; f < flipped.length; f++) {
+    if (!flipped[f]) continue;
+    const tmp = faces[f * 3 + 1];
+    faces[f * 3 + 1] = faces[f * 3 + 2];
+    faces[f * 3 + 2] = tmp;
+    facesFlipped++;
+  }
+
+  // 3. Fill simple holes with a fan around the loop centroid
+  faceArray = Uint32Array.from(faces);
+  edges = buildEdgeMap(faceArray, welded.vertexCount);
+  const loops = findHoleLoops(faces, edges, welded.vertexCount);
+  let trianglesAdded = 0;
+  for (const loop of loops) {
+    if (loop.length === 3) {
+      faces.push(loop[0], loop[1], loop[2]);
+      trianglesAdded++;
+      continue;
+    }
+    let cx = 0, cy = 0, cz = 0;
+    for (const v of loop) {
+      cx += positions[v * 3];
+      cy += positions[v * 3 + 1];
+      cz += positions[v * 3 + 2];
+    }
+    const center = positions.length / 3;
+    positions.push(cx / loop.length, cy / loop.length, cz / loop.length);
+    for (let i = 0; i < loop.length; i++) {
+      faces.push(center, loop[i], loop[(i + 1) % loop.length]);
+    }
+    trianglesAdded += loop.length;
+  }
+
+  // 4. Expand back to triangle soup and recompute flat normals
+  const out = new Float32Array(faces.length * 3);
+  for (let i = 0; i < faces.length; i++) {
+    out[i * 3] = positions[faces[i] * 3];
+    out[i * 3 + 1] = positions[faces[i] * 3 + 1];
+    out[i * 3 + 2] = positions[faces[i] * 3 + 2];
+  }
+  const repaired = new THREE.BufferGeometry();
+  repaired.setAttribute('position', new THREE.BufferAttribute(out, 3));
+  repaired.computeVertexNormals();
+
+  // Check whether the result is closed
+  const check = weldVertices(repaired);
+  let isWatertight = true;
+  buildEdgeMap(check.faces, check.vertexCount).forEach((list) => {
+    if (list.length !== 2) isWatertight = false;
+  });
+
+  const report: MeshRepairReport = {
+    verticesMerged: welded.vertexMap.length - welded.vertexCount,
+    degenerateRemoved,
+    duplicatesRemoved,
+    facesFlipped,
+    holesFilled: loops.length,
+    trianglesAdded,
+    triangleCountBefore,
+    triangleCountAfter: faces.length / 3,
+    isWatertight,
+  };
+
+  return { geometry: repaired, report };
+};
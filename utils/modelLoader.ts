@@ -0,0 +1,256 @@
+import * as THREE from 'three';
+import { STLLoader, OBJLoader, PLYLoader, ThreeMFLoader, GLTFLoader } from 'three-stdlib';
+import { ModelFormat, LoadProgress, MeshMetrics, MeshDiagnostics } from '../types';
+import { computeMeshMetrics } from './meshMetrics';
+import { diagnoseMesh } from './meshDiagnostics';
+
+export const SUPPORTED_EXTENSIONS = ['.stl', '.obj', '.3mf', '.ply', '.gltf', '.glb'];
+
+// The 3MF and glTF loaders need DOM APIs (DOMParser, images), so they parse on the main thread
+const WORKER_FORMATS: ModelFormat[] = ['stl', 'obj', 'ply'];
+
+const FORMAT_LABELS: Record<ModelFormat, string> = {
+  stl: 'STL',
+  obj: 'OBJ',
+  '3mf': '3MF',
+  ply: 'PLY',
+  gltf: 'glTF',
+  glb: 'glTF (binary)',
+};
+
+const startsWith = (bytes: Uint8Array, text: string) => {
+  if (bytes.length < text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Binary STL: 80 byte header, uint32 triangle count, 50 bytes per triangle
+const isBinarySTL = (buffer: ArrayBuffer) => {
+  if (buffer.byteLength < 84) return false;
+  const triangles = new DataView(buffer).getUint32(80, true);
+  return 84 + triangles * 50 === buffer.byteLength;
+};
+
+/**
+ * Identifies the file format from its magic bytes, falling back to the file
+ * extension for text formats that have no reliable signature.
+ */
+export const detectModelFormat = (fileName: string, buffer: ArrayBuffer): ModelFormat => {
+  const header = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512));
+  const headerText = new TextDecoder().decode(header).trimStart();
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+
+  // 1. Formats with an unambiguous signature
+  if (startsWith(header, 'glTF')) return 'glb';
+  if (startsWith(header, 'PK\x03\x04')) {
+    if (extension === '3mf') return '3mf';
+    throw new Error('This looks like a ZIP archive. Only 3MF archives are supported.');
+  }
+  if (startsWith(header, 'ply')) return 'ply';
+
+  // 2. Binary STL is recognizable by its exact size
+  if (isBinarySTL(buffer)) return 'stl';
+
+  // 3. Text formats, trusting the extension when the content agrees
+  if (headerText.startsWith('{') && (extension === 'gltf' || headerText.includes('"asset"'))) return 'gltf';
+  if (headerText.startsWith('solid') && extension !== 'obj') return 'stl';
+  if (extension === 'obj' || /^(#|v |vn |vt |o |g |mtllib )/m.test(headerText)) return 'obj';
+  if (extension === 'stl') return 'stl';
+
+  throw new Error(`Unsupported file "${fileName}". Supported formats: ${SUPPORTED_EXTENSIONS.join(', ')}.`);
+};
+
+/**
+ * Flattens every mesh in a scene graph into one non-indexed, position-only
+ * geometry so the measuring and analysis tools can treat it as a single part.
+ */
+export const mergeSceneGeometry = (root: THREE.Object3D) => {
+  root.updateMatrixWorld(true);
+  const parts: Float32Array[] = [];
+
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry?.getAttribute('position')) return;
+    const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    geometry.applyMatrix4(mesh.matrixWorld);
+
+    // Copy through the accessor so interleaved or quantized attributes come out as floats
+    const position = geometry.getAttribute('position');
+    const part = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+      part[i * 3] = position.getX(i);
+      part[i * 3 + 1] = position.getY(i);
+      part[i * 3 + 2] = position.getZ(i);
+    }
+    parts.push(part);
+    geometry.dispose();
+  });
+
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const positions = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    positions.set(part, offset);
+    offset += part.length;
+  }
+
+  const merged = new THREE.BufferGeometry();
+  merged.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  return merged;
+};
+
+const parseGLTF = (buffer: ArrayBuffer) =>
+  new Promise<THREE.Object3D>((resolve, reject) => {
+    new GLTFLoader().parse(buffer, '', (gltf) => resolve(gltf.scene), reject);
+  });
+
+export const parseByFormat = async (format: ModelFormat, buffer: ArrayBuffer): Promise<THREE.BufferGeometry> => {
+  switch (format) {
+    case 'stl':
+      return new STLLoader().parse(buffer);
+    case 'ply': {
+      const geometry = new PLYLoader().parse(buffer);
+      if (!geometry.index) {
+        geometry.dispose();
+        return new THREE.BufferGeometry();
+      }
+      const soup = geometry.toNonIndexed();
+      geometry.dispose();
+      return soup;
+    }
+    case 'obj':
+      return mergeSceneGeometry(new OBJLoader().parse(new TextDecoder().decode(buffer)));
+    case '3mf':
+      return mergeSceneGeometry(new ThreeMFLoader().parse(buffer));
+    case 'gltf':
+    case 'glb': {
+      const scene = await parseGLTF(buffer);
+      const geometry = mergeSceneGeometry(scene);
+      // glTF is Y-up, the viewer expects Z-up input like STL and 3MF
+      geometry.rotateX(Math.PI / 2);
+      return geometry;
+    }
+  }
+};
+
+export type ModelWorkerRequest =
+  | { type: 'parse', format: ModelFormat, buffer: ArrayBuffer }
+  | { type: 'analyze', positions: Float32Array };
+
+export type ModelWorkerMessage =
+  | { type: 'progress', progress: LoadProgress }
+  | { type: 'done', positions: Float32Array, normals: Float32Array, metrics: MeshMetrics, diagnostics: MeshDiagnostics }
+  | { type: 'error', reason: 'parse' | 'empty' };
+
+/**
+ * Readies a freshly parsed geometry for the viewer: centers it on its bounding box,
+ * adds flat normals when the format had none, and runs the transform-independent analysis.
+ */
+export const prepareGeometry = (geometry: THREE.BufferGeometry) => {
+  geometry.center();
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+  return { metrics: computeMeshMetrics(geometry), diagnostics: diagnoseMesh(geometry) };
+};
+
+const readFile = (file: File, onProgress: (progress: number) => void, onReader: (reader: FileReader) => void) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    onReader(reader);
+    reader.readAsArrayBuffer(file);
+  });
+
+/**
+ * Reads a model file of any supported format into a single centered triangle geometry
+ * with its metrics and diagnostics. Parsing (where possible) and analysis run in a Web
+ * Worker. The promise rejects with a user-facing Error for unsupported or corrupt files,
+ * or with an AbortError after `cancel`.
+ */
+export const loadModel = (file: File, onProgress: (progress: LoadProgress) => void) => {
+  let reader: FileReader | null = null;
+  let worker: Worker | null = null;
+  // Main-thread parsing cannot be interrupted, so `run` checks this between steps
+  let isCancelled = false;
+  const cancelError = () => new DOMException('Loading cancelled.', 'AbortError');
+  let rejectCancel: (reason: unknown) => void = () => {};
+  const cancelled = new Promise<never>((_, reject) => {
+    rejectCancel = reject;
+  });
+
+  const run = async () => {
+    onProgress({ stage: 'reading', progress: 0 });
+    const buffer = await readFile(file, progress => onProgress({ stage: 'reading', progress }), r => { reader = r; });
+    if (isCancelled) throw cancelError();
+    if (buffer.byteLength === 0) {
+      throw new Error(`"${file.name}" is empty.`);
+    }
+
+    const format = detectModelFormat(file.name, buffer);
+    const parseError = () => new Error(`Could not read ${FORMAT_LABELS[format]} file "${file.name}". It may be corrupt or truncated.`);
+
+    let request: ModelWorkerRequest;
+    if (WORKER_FORMATS.includes(format)) {
+      request = { type: 'parse', format, buffer };
+    } else {
+      onProgress({ stage: 'parsing', progress: null });
+      let parsed: THREE.BufferGeometry;
+      try {
+        parsed = await parseByFormat(format, buffer);
+      } catch (error: any) {
+        console.error('Model parse error:', error);
+        throw parseError();
+      }
+      if (isCancelled) {
+        parsed.dispose();
+        throw cancelError();
+      }
+      const position = parsed.getAttribute('position');
+      request = { type: 'analyze', positions: position ? Float32Array.from(position.array) : new Float32Array() };
+      parsed.dispose();
+    }
+
+    const result = await new Promise<Extract<ModelWorkerMessage, { type: 'done' }>>((resolve, reject) => {
+      const modelWorker = new Worker(new URL('./modelLoader.worker.ts', import.meta.url), { type: 'module' });
+      worker = modelWorker;
+      modelWorker.onmessage = (event: MessageEvent<ModelWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress(message.progress);
+          return;
+        }
+        modelWorker.terminate();
+        if (message.type === 'done') resolve(message);
+        else if (message.reason === 'parse') reject(parseError());
+        else reject(new Error(`"${file.name}" does not contain any triangle meshes.`));
+      };
+      modelWorker.onerror = (event) => {
+        modelWorker.terminate();
+        console.error('Model worker failed:', event.message);
+        reject(parseError());
+      };
+      const transfer = request.type === 'parse' ? [request.buffer] : [request.positions.buffer];
+      modelWorker.postMessage(request, transfer);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(result.positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(result.normals, 3));
+    return { geometry, format, metrics: result.metrics, diagnostics: result.diagnostics };
+  };
+
+  return {
+    promise: Promise.race([run(), cancelled]),
+    cancel: () => {
+      isCancelled = true;
+      reader?.abort();
+      worker?.terminate();
+      rejectCancel(cancelError());
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import { parseByFormat, prepareGeometry, ModelWorkerRequest, ModelWorkerMessage } from './modelLoader';
+
+const post = (message: ModelWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Copy through the accessors so interleaved attributes come out as plain arrays
+const copyVectors = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) => {
+  const array = new Float32Array(attribute.count * 3);
+  for (let i = 0; i < attribute.count; i++) {
+    array[i * 3] = attribute.getX(i);
+    array[i * 3 + 1] = attribute.getY(i);
+    array[i * 3 + 2] = attribute.getZ(i);
+  }
+  return array;
+};
+
+self.onmessage = async (event: MessageEvent<ModelWorkerRequest>) => {
+  const request = event.data;
+  let geometry: THREE.BufferGeometry;
+
+  if (request.type === 'parse') {
+    post({ type: 'progress', progress: { stage: 'parsing', progress: null } });
+    try {
+      geometry = await parseByFormat(request.format, request.buffer);
+    } catch (error: any) {
+      console.error('Model parse error:', error);
+      post({ type: 'error', reason: 'parse' });
+      return;
+    }
+  } else {
+    geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(request.positions, 3));
+  }
+
+  const position = geometry.getAttribute('position');
+  if (!position || position.count < 3) {
+    post({ type: 'error', reason: 'empty' });
+    return;
+  }
+
+  post({ type: 'progress', progress: { stage: 'analyzing', progress: null } });
+  const { metrics, diagnostics } = prepareGeometry(geometry);
+
+  const positions = copyVectors(geometry.getAttribute('position'));
+  const normals = copyVectors(geometry.getAttribute('normal'));
+  post({ type: 'done', positions, normals, metrics, diagnostics }, [positions.buffer, normals.buffer]);
+};
@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+import { forEachTriangle } from './meshMetrics';
+
+export const DEFAULT_OVERHANG_ANGLE = 45;
+
+// Faces this close to the lowest point (mm) rest on the bed and need no support
+const BED_CONTACT_TOLERANCE = 0.05;
+
+const SAFE_COLOR = new THREE.Color('#94a3b8');
+const BED_COLOR = new THREE.Color('#10b981');
+const MILD_COLOR = new THREE.Color('#facc15');
+const SEVERE_COLOR = new THREE.Color('#ef4444');
+
+type FaceKind = 'bed' | 'overhang' | 'safe';
+
+/**
+ * Classifies every face by its angle to the build direction (+Y after rotation).
+ * A face is an overhang when it leans further from vertical than the critical angle.
+ * Areas and height are returned in scaled mm; severity runs from 0 (at the limit) to 1 (flat ceiling).
+ */
+export const classifyFaces = (
+  geometry: THREE.BufferGeometry,
+  rotation: THREE.Quaternion,
+  scale: number,
+  criticalAngle: number,
+  onFace?: (a: number, b: number, c: number, kind: FaceKind, severity: number) => void
+) => {
+  const position = geometry.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+
+  // Lowest point after rotation; scale is uniform so it can be applied afterwards
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < position.count; i++) {
+    const y = a.fromBufferAttribute(position, i).applyQuaternion(rotation).y;
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  const bedLevel = minY + BED_CONTACT_TOLERANCE / scale;
+
+  // Normals pointing closer than this to straight down are overhangs
+  const limit = THREE.MathUtils.degToRad(90 - criticalAngle);
+  let overhangArea = 0;
+  let contactArea = 0;
+
+  forEachTriangle(geometry, (ia, ib, ic) => {
+    a.fromBufferAttribute(position, ia).applyQuaternion(rotation);
+    b.fromBufferAttribute(position, ib).applyQuaternion(rotation);
+    c.fromBufferAttribute(position, ic).applyQuaternion(rotation);
+    normal.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a));
+    const faceArea = normal.length() / 2;
+    if (faceArea > 0) normal.divideScalar(faceArea * 2);
+
+    // Angle between the face normal and straight down
+    const downAngle = Math.acos(THREE.MathUtils.clamp(-normal.y, -1, 1));
+    const onBed = a.y <= bedLevel && b.y <= bedLevel && c.y <= bedLevel;
+
+    if (onBed) {
+      contactArea += faceArea * scale * scale;
+      onFace?.(ia, ib, ic, 'bed', 0);
+    } else if (downAngle < limit) {
+      overhangArea += faceArea * scale * scale;
+      onFace?.(ia, ib, ic, 'overhang', limit > 0 ? 1 - downAngle / limit : 1);
+    } else {
+      onFace?.(ia, ib, ic, 'safe', 0);
+    }
+  });
+
+  return { overhangArea, contactArea, height: (maxY - minY) * scale };
+};
+
+/**
+ * Returns per-vertex overhang colors for the render geometry and the overhang area in mm².
+ */
+export const computeOverhangs = (
+  geometry: THREE.BufferGeometry,
+  rotation: THREE.Quaternion,
+  scale: number,
+  criticalAngle: number
+) => {
+  const colors = new Float32Array(geometry.getAttribute('position').count * 3);
+  const color = new THREE.Color();
+
+  const { overhangArea } = classifyFaces(geometry, rotation, scale, criticalAngle, (ia, ib, ic, kind, severity) => {
+    if (kind === 'bed') color.copy(BED_COLOR);
+    else if (kind === 'overhang') color.copy(MILD_COLOR).lerp(SEVERE_COLOR, severity);
+    else color.copy(SAFE_COLOR);
+
+    for (const i of [ia, ib, ic]) {
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    }
+  });
+
+  return { colors, area: overhangArea };
+};
@@ -0,0 +1,66 @@
+import { PrintSettings, PrintEstimate } from '../types';
+import { MATERIAL_PRESETS, estimateMass } from './meshMetrics';
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  materialId: MATERIAL_PRESETS[0].id,
+  density: MATERIAL_PRESETS[0].density,
+  pricePerKg: 25,
+  filamentDiameter: 1.75,
+  layerHeight: 0.2,
+  wallCount: 2,
+  infill: 15,
+};
+
+// Typical FDM slicer defaults the rough estimate is based on
+const LINE_WIDTH = 0.45; // mm
+const PRINT_SPEED = 60; // mm/s of extrusion moves
+const TRAVEL_OVERHEAD = 1.3; // Travel, retraction and acceleration on top of extrusion time
+const LAYER_CHANGE_TIME = 2; // Seconds per layer
+
+/**
+ * Rough slicer-style estimate for printing a solid mesh. The shell is the surface
+ * area times the wall thickness, the rest of the volume is filled at the infill ratio.
+ * Volumes and areas are in mm³/mm² at the current scale, height in mm.
+ */
+export const estimatePrint = (
+  meshVolume: number,
+  surfaceArea: number,
+  height: number,
+  settings: PrintSettings
+): PrintEstimate => {
+  const volume = Math.abs(meshVolume);
+  const shellVolume = Math.min(surfaceArea * settings.wallCount * LINE_WIDTH, volume);
+  const infillVolume = (volume - shellVolume) * (settings.infill / 100);
+  const materialVolume = shellVolume + infillVolume;
+
+  const filamentArea = Math.PI * (settings.filamentDiameter / 2) ** 2;
+  const weight = estimateMass(materialVolume, settings.density);
+
+  const flowRate = PRINT_SPEED * LINE_WIDTH * settings.layerHeight; // mm³/s
+  const layers = Math.ceil(height / settings.layerHeight);
+  const printTime = (materialVolume / flowRate) * TRAVEL_OVERHEAD + layers * LAYER_CHANGE_TIME;
+
+  return {
+    materialVolume,
+    filamentLength: materialVolume / filamentArea,
+    weight,
+    cost: (weight / 1000) * settings.pricePerKg,
+    printTime,
+  };
+};
+
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+/**
+ * One-line summary used as the STL header / solid name of exported models.
+ */
+export const formatEstimateSummary = (estimate: PrintEstimate, settings: PrintSettings) => {
+  const material = MATERIAL_PRESETS.find(m => m.id === settings.materialId)?.name ?? 'custom';
+  return `${material} ${estimate.weight.toFixed(1)}g ${(estimate.filamentLength / 1000).toFixed(2)}m ` +
+    `cost ${estimate.cost.toFixed(2)} time ${formatDuration(estimate.printTime)} ` +
+    `${settings.layerHeight}mm ${settings.infill}%`;
+};
@@ -0,0 +1,38 @@
+import { ModelDimensions, PrinterProfile } from '../types';
+
+// Build volumes in mm (width = X, depth = Y, height = Z in printer coordinates)
+export const PRINTER_PROFILES: PrinterProfile[] = [
+  { id: 'prusa-mk4', name: 'Prusa MK4', width: 250, depth: 210, height: 220 },
+  { id: 'bambu-x1', name: 'Bambu Lab X1', width: 256, depth: 256, height: 256 },
+  { id: 'ender-3', name: 'Creality Ender 3', width: 220, depth: 220, height: 250 },
+  { id: 'form-3', name: 'Formlabs Form 3', width: 145, depth: 145, height: 185 },
+];
+
+// Slack for floating point error after scaling to fit (mm)
+const FIT_TOLERANCE = 1e-3;
+
+/**
+ * Checks an object's footprint against the build volume centered on the origin.
+ * Viewer X maps to printer X, viewer Z to printer Y and viewer Y to printer Z.
+ */
+export const fitsBuildVolume = (dims: ModelDimensions, position: [number, number], printer: PrinterProfile) => {
+  const halfWidth = printer.width / 2 + FIT_TOLERANCE;
+  const halfDepth = printer.depth / 2 + FIT_TOLERANCE;
+  return (
+    position[0] - dims.width / 2 >= -halfWidth &&
+    position[0] + dims.width / 2 <= halfWidth &&
+    position[1] - dims.depth / 2 >= -halfDepth &&
+    position[1] + dims.depth / 2 <= halfDepth &&
+    dims.height <= printer.height + FIT_TOLERANCE
+  );
+};
+
+// Largest uniform scale at which the object fits when centered on the plate
+export const computeScaleToFit = (dims: ModelDimensions, currentScale: number, printer: PrinterProfile) => {
+  const ratio = Math.min(
+    printer.width / dims.width,
+    printer.depth / dims.depth,
+    printer.height / dims.height
+  );
+  return currentScale * ratio;
+};
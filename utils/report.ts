@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { InspectionReport, SceneObject, ModelDimensions, Measurement, MeshDiagnostics, PrintSettings, PrintEstimate, AnalysisMessage, LengthUnit } from '../types';
+import { measurementKind, measurementValue, formatMeasurement } from './measurements';
+import { formatLength, formatArea, formatVolume } from './units';
+import { formatDuration } from './printEstimate';
+import { MATERIAL_PRESETS } from './meshMetrics';
+
+interface ReportInput {
+  object: SceneObject;
+  dimensions: ModelDimensions;
+  measurements: Measurement[];
+  diagnostics: MeshDiagnostics | null;
+  printSettings: PrintSettings;
+  printEstimate: PrintEstimate | null;
+  analysis: AnalysisMessage[];
+  snapshots: string[];
+  displayUnit: LengthUnit;
+}
+
+/**
+ * Collects the inspection results for one object into a plain, serializable report.
+ */
+export const buildReport = ({
+  object,
+  dimensions,
+  measurements,
+  diagnostics,
+  printSettings,
+  printEstimate,
+  analysis,
+  snapshots,
+  displayUnit
+}: ReportInput): InspectionReport => {
+  const euler = new THREE.Euler().setFromQuaternion(object.rotation);
+  const toDegrees = (radians: number) => Math.round(THREE.MathUtils.radToDeg(radians) * 100) / 100;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    displayUnit,
+    object: {
+      name: object.name,
+      sourceUnit: object.sourceUnit,
+      scale: object.scale,
+      rotation: [toDegrees(euler.x), toDegrees(euler.y), toDegrees(euler.z)],
+      position: object.position,
+    },
+    dimensions,
+    measurements: measurements
+      .filter(m => m.objectId === object.id)
+      .map(m => ({
+        name: m.name,
+        kind: m.kind,
+        value: measurementValue(m, object.scale),
+        display: formatMeasurement(m, object.scale, displayUnit),
+      })),
+    diagnostics: diagnostics && {
+      triangleCount: diagnostics.triangleCount,
+      vertexCount: diagnostics.vertexCount,
+      shellCount: diagnostics.shellCount,
+      isWatertight: diagnostics.isWatertight,
+      issues: diagnostics.issues.map(issue => ({ label: issue.label, count: issue.count })),
+    },
+    printSettings,
+    printEstimate,
+    // Errors and unfinished replies are UI feedback, not analysis results
+    analysis: analysis.filter(m => !m.isError && !m.streaming),
+    snapshots,
+  };
+};
+
+/**
+ * Machine-readable report. Snapshots are left out to keep the file small.
+ */
+export const reportToJSON = (report: InspectionReport) => {
+  const { snapshots: _snapshots, ...data } = report;
+  return JSON.stringify(data, null, 2);
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const row = (label: string, value: string) =>
+  `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+const REPORT_STYLE = `
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta { color: #64748b; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #e2e8f0; }
+  th { font-weight: 500; color: #475569; width: 40%; }
+  .snapshots { display: grid; grid-template-columns: repeat(2, 1fr); gap: 0.5rem; }
+  .snapshots img { width: 100%; border-radius: 4px; background: #0f172a; }
+  .message { white-space: pre-wrap; font-size: 0.9rem; margin: 0.5rem 0; }
+  .message b { color: #4f46e5; }
+  .ok { color: #059669; } .bad { color: #dc2626; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } .snapshots img { break-inside: avoid; } }
+`;
+
+/**
+ * Self-contained HTML document with snapshots embedded as data URLs. Values are
+ * formatted in the report's display unit.
+ */
+export const reportToHTML = (report: InspectionReport) => {
+  const unit = report.displayUnit;
+  const { object, dimensions, diagnostics, printSettings, printEstimate } = report;
+  const sections: string[] = [];
+
+  if (report.snapshots.length > 0) {
+    sections.push(`<h2>Views</h2><div class="snapshots">${
+      report.snapshots.map((src, i) => `<img src="${src}" alt="View ${i + 1}">`).join('')
+    }</div>`);
+  }
+
+  sections.push(`<h2>Model</h2><table>${[
+    row('File', object.name),
+    row('File units', object.sourceUnit),
+    row('Scale', `${(object.scale * 100).toFixed(1)}%`),
+    row('Rotation (X, Y, Z)', object.rotation.map(a => `${a.toFixed(1)}°`).join(', ')),
+    row('Bed position (X, Z)', object.position.map(p => formatLength(p, unit)).join(', ')),
+  ].join('')}</table>`);
+
+  sections.push(`<h2>Dimensions</h2><table>${[
+    row('Width (X)', formatLength(dimensions.width, unit)),
+    row('Height (Y)', formatLength(dimensions.height, unit)),
+    row('Depth (Z)', formatLength(dimensions.depth, unit)),
+    row('Mesh volume', formatVolume(dimensions.meshVolume, unit)),
+    row('Bounding box volume', formatVolume(dimensions.volume, unit)),
+    row('Surface area', formatArea(dimensions.surfaceArea, unit)),
+  ].join('')}</table>`);
+
+  if (report.measurements.length > 0) {
+    sections.push(`<h2>Measurements</h2><table>${
+      report.measurements.map(m => row(`${m.name} (${measurementKind(m.kind).label})`, m.display)).join('')
+    }</table>`);
+  }
+
+  if (diagnostics) {
+    const status = diagnostics.isWatertight
+      ? '<span class="ok">Watertight</span>'
+      : '<span class="bad">Not watertight</span>';
+    sections.push(`<h2>Mesh Integrity</h2><p>${status}</p><table>${[
+      row('Triangles', diagnostics.triangleCount.toLocaleString()),
+      row('Vertices', diagnostics.vertexCount.toLocaleString()),
+      row('Shells', String(diagnostics.shellCount)),
+      ...diagnostics.issues.map(issue => row(issue.label, issue.count.toLocaleString())),
+    ].join('')}</table>`);
+  }
+
+  if (printEstimate) {
+    const material = MATERIAL_PRESETS.find(m => m.id === printSettings.materialId)?.name ?? 'Custom';
+    sections.push(`<h2>Print Estimate</h2><table>${[
+      row('Material', `${material} (${printSettings.density} g/cm³)`),
+      row('Settings', `${printSettings.layerHeight} mm layers, ${printSettings.wallCount} walls, ${printSettings.infill}% infill`),
+      row('Filament', `${(printEstimate.filamentLength / 1000).toFixed(2)} m of ${printSettings.filamentDiameter} mm`),
+      row('Weight', `${printEstimate.weight.toFixed(1)} g`),
+      row('Cost', printEstimate.cost.toFixed(2)),
+      row('Print time', `~${formatDuration(printEstimate.printTime)}`),
+    ].join('')}</table>`);
+  }
+
+  if (report.analysis.length > 0) {
+    sections.push(`<h2>AI Analysis</h2>${
+      report.analysis.map(m =>
+        `<p class="message"><b>${m.role === 'ai' ? 'Gemini' : 'Question'}:</b> ${escapeHtml(m.content)}</p>`
+      ).join('')
+    }`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Inspection Report - ${escapeHtml(object.name)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Inspection Report: ${escapeHtml(object.name)}</h1>
+<p class="meta">Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Opens the browser's print dialog for an HTML document, where it can be saved
+ * as PDF. A hidden iframe avoids popup blockers.
+ */
+export const printHTML = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    // print() blocks until the dialog closes in most browsers
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
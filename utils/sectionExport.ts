@@ -0,0 +1,62 @@
+import { CrossSection } from '../types';
+
+// Padding around the drawing in the SVG (mm)
+const SVG_MARGIN = 5;
+
+const allPaths = (section: CrossSection) => [
+  ...section.loops.map(points => ({ points, closed: true })),
+  ...section.openPaths.map(points => ({ points, closed: false })),
+];
+
+/**
+ * Writes the section contours as an SVG drawing in millimetres.
+ * SVG's Y axis points down, so the plane's second axis is flipped.
+ */
+export const sectionToSVG = (section: CrossSection) => {
+  const paths = allPaths(section);
+  let minX = Infinity, maxY = -Infinity;
+  for (const { points } of paths) {
+    for (const [x, y] of points) {
+      minX = Math.min(minX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  const width = section.width + SVG_MARGIN * 2;
+  const height = section.height + SVG_MARGIN * 2;
+  const toSvg = ([x, y]: [number, number]) =>
+    `${(x - minX + SVG_MARGIN).toFixed(4)},${(maxY - y + SVG_MARGIN).toFixed(4)}`;
+
+  const elements = paths.map(({ points, closed }) => {
+    const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${toSvg(p)}`).join(' ');
+    return `  <path d="${d}${closed ? ' Z' : ''}" />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(3)}mm" height="${height.toFixed(3)}mm" viewBox="0 0 ${width.toFixed(4)} ${height.toFixed(4)}">`,
+    // evenodd keeps holes open when the drawing is filled
+    '<g fill="none" fill-rule="evenodd" stroke="#000000" stroke-width="0.1">',
+    ...elements,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Writes the section contours as a minimal ASCII DXF (R12) with one POLYLINE
+ * entity per contour, which every CAD package can import.
+ */
+export const sectionToDXF = (section: CrossSection) => {
+  const lines: string[] = ['0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', '4', '0', 'ENDSEC', '0', 'SECTION', '2', 'ENTITIES'];
+
+  for (const { points, closed } of allPaths(section)) {
+    lines.push('0', 'POLYLINE', '8', 'SECTION', '66', '1', '70', closed ? '1' : '0');
+    for (const [x, y] of points) {
+      lines.push('0', 'VERTEX', '8', 'SECTION', '10', x.toFixed(4), '20', y.toFixed(4), '30', '0.0');
+    }
+    lines.push('0', 'SEQEND');
+  }
+
+  lines.push('0', 'ENDSEC', '0', 'EOF');
+  return lines.join('\n');
+};
@@ -0,0 +1,193 @@
+import { Session, SessionSummary } from '../types';
+
+const DB_NAME = 'stl-inspector';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const FILE_STORE = 'files';
+
+// Bundle layout: magic, manifest byte length (uint32 LE), manifest JSON, then the files back to back
+const BUNDLE_MAGIC = 'STLSESSION1';
+
+export const SESSION_BUNDLE_EXTENSION = '.stlsession';
+
+interface BundleManifest {
+  session: Session;
+  files: { id: string, name: string, size: number }[];
+}
+
+// Model files get a stable id the first time they are saved, so duplicated
+// objects and repeated autosaves share one stored copy
+const fileIds = new WeakMap<Blob, string>();
+const storedFileIds = new Set<string>();
+
+export const fileIdFor = (file: Blob) => {
+  let id = fileIds.get(file);
+  if (!id) {
+    id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    fileIds.set(file, id);
+  }
+  return id;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(FILE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Writes the session record together with any model files not stored yet.
+ * `files` maps file ids (see fileIdFor) to the model files. Stored files no session
+ * refers to any more, such as those replaced by baked or cut geometry, are removed.
+ */
+export const saveSession = async (session: Session, files: Record<string, File>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const sessionStore = transaction.objectStore(SESSION_STORE);
+  const fileStore = transaction.objectStore(FILE_STORE);
+  const written: string[] = [];
+  for (const [id, file] of Object.entries(files)) {
+    if (storedFileIds.has(id)) continue;
+    fileStore.put(file, id);
+    written.push(id);
+  }
+  sessionStore.put(session);
+
+  const sessions = await requestToPromise<Session[]>(sessionStore.getAll());
+  const inUse = new Set(sessions.flatMap(s => s.objects.map(o => o.fileId)));
+  const removed: string[] = [];
+  for (const key of await requestToPromise(fileStore.getAllKeys())) {
+    const id = String(key);
+    if (inUse.has(id)) continue;
+    fileStore.delete(id);
+    removed.push(id);
+  }
+  await transactionDone(transaction);
+  written.forEach(id => storedFileIds.add(id));
+  removed.forEach(id => storedFileIds.delete(id));
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const sessions = await requestToPromise<Session[]>(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+  );
+  return sessions
+    .map(s => ({ id: s.id, name: s.name, savedAt: s.savedAt, objectCount: s.objects.length }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Reads a session and its model files. Files that went missing from storage are
+ * left out; callers skip objects whose file is not in the result.
+ */
+export const loadSession = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE]);
+  const session = await requestToPromise<Session | undefined>(transaction.objectStore(SESSION_STORE).get(id));
+  if (!session) throw new Error('Session not found.');
+
+  const files: Record<string, File> = {};
+  for (const fileId of new Set(session.objects.map(o => o.fileId))) {
+    const file = await requestToPromise<File | undefined>(transaction.objectStore(FILE_STORE).get(fileId));
+    if (!file) continue;
+    fileIds.set(file, fileId);
+    storedFileIds.add(fileId);
+    files[fileId] = file;
+  }
+  return { session, files };
+};
+
+/**
+ * Removes a session and the model files no other session refers to.
+ */
+export const deleteSession = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const sessionStore = transaction.objectStore(SESSION_STORE);
+  const fileStore = transaction.objectStore(FILE_STORE);
+
+  const sessions = await requestToPromise<Session[]>(sessionStore.getAll());
+  const target = sessions.find(s => s.id === id);
+  if (target) {
+    const inUse = new Set(sessions.filter(s => s.id !== id).flatMap(s => s.objects.map(o => o.fileId)));
+    for (const object of target.objects) {
+      if (inUse.has(object.fileId)) continue;
+      fileStore.delete(object.fileId);
+      storedFileIds.delete(object.fileId);
+    }
+    sessionStore.delete(id);
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Packs a session and its model files into one downloadable file.
+ */
+export const createSessionBundle = (session: Session, files: Record<string, File>) => {
+  const entries = Object.entries(files);
+  const manifest: BundleManifest = {
+    session,
+    files: entries.map(([id, file]) => ({ id, name: file.name, size: file.size })),
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, manifestBytes.length, true);
+
+  return new Blob(
+    [BUNDLE_MAGIC, length, manifestBytes, ...entries.map(([, file]) => file)],
+    { type: 'application/octet-stream' }
+  );
+};
+
+export const readSessionBundle = async (bundle: Blob) => {
+  const buffer = await bundle.arrayBuffer();
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(BUNDLE_MAGIC.length, buffer.byteLength)));
+  if (magic !== BUNDLE_MAGIC || buffer.byteLength < BUNDLE_MAGIC.length + 4) {
+    throw new Error('Not a session file.');
+  }
+
+  const manifestLength = new DataView(buffer).getUint32(BUNDLE_MAGIC.length, true);
+  let offset = BUNDLE_MAGIC.length + 4;
+  const manifest: BundleManifest = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, offset, manifestLength))
+  );
+  offset += manifestLength;
+
+  const files: Record<string, File> = {};
+  for (const entry of manifest.files) {
+    if (offset + entry.size > buffer.byteLength) throw new Error('Session file is truncated.');
+    const file = new File([buffer.slice(offset, offset + entry.size)], entry.name);
+    fileIds.set(file, entry.id);
+    files[entry.id] = file;
+    offset += entry.size;
+  }
+  return { session: manifest.session, files };
+};
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { SnapMode } from '../types';
+import { circleFromPoints } from './measurements';
+
+// Edges whose faces meet at more than this angle (degrees) count as feature edges
+const FEATURE_EDGE_ANGLE = 20;
+
+// Edge picks within this fraction of the edge length from its middle snap to the midpoint
+const MIDPOINT_FRACTION = 0.15;
+
+// A closed edge loop is treated as a circle when every point is within this
+// fraction of the fitted radius, and it has at least this many segments
+const CIRCLE_TOLERANCE = 0.05;
+const MIN_CIRCLE_SEGMENTS = 6;
+
+interface SnapFeatures {
+  edges: Float32Array; // Feature edge segments, 6 floats each
+  circles: { center: THREE.Vector3, normal: THREE.Vector3, radius: number }[];
+}
+
+export interface SnapResult {
+  point: [number, number, number];
+  kind: Exclude<SnapMode, 'none'> | 'midpoint' | 'surface';
+}
+
+// Feature extraction is expensive, so it runs once per geometry on first use
+const featureCache = new WeakMap<THREE.BufferGeometry, SnapFeatures>();
+
+// Chains feature edges into closed loops and keeps the ones that are round
+const findCircles = (edges: Float32Array) => {
+  const keyOf = (i: number) =>
+    `${Math.round(edges[i] * 1e4)}_${Math.round(edges[i + 1] * 1e4)}_${Math.round(edges[i + 2] * 1e4)}`;
+  const points = new Map<string, THREE.Vector3>();
+  const neighbours = new Map<string, string[]>();
+  for (let i = 0; i < edges.length; i += 6) {
+    const a = keyOf(i);
+    const b = keyOf(i + 3);
+    if (a === b) continue;
+    points.set(a, new THREE.Vector3(edges[i], edges[i + 1], edges[i + 2]));
+    points.set(b, new THREE.Vector3(edges[i + 3], edges[i + 4], edges[i + 5]));
+    neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+    neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+  }
+
+  const visited = new Set<string>();
+  const circles: SnapFeatures['circles'] = [];
+  for (const start of neighbours.keys()) {
+    if (visited.has(start) || neighbours.get(start)!.length !== 2) continue;
+
+    // Walk the loop while every vertex has exactly two feature edges
+    const loop = [start];
+    visited.add(start);
+    let previous = start;
+    let current = neighbours.get(start)![0];
+    let closed = false;
+    while (!visited.has(current)) {
+      const next = neighbours.get(current)!;
+      if (next.length !== 2) break;
+      visited.add(current);
+      loop.push(current);
+      const following = next[0] === previous ? next[1] : next[0];
+      previous = current;
+      current = following;
+      if (current === start) closed = true;
+    }
+    if (!closed || loop.length < MIN_CIRCLE_SEGMENTS) continue;
+
+    const loopPoints = loop.map(key => points.get(key)!);
+    const third = Math.floor(loopPoints.length / 3);
+    const circle = circleFromPoints(loopPoints[0], loopPoints[third], loopPoints[third * 2]);
+    if (!circle) continue;
+    const isRound = loopPoints.every(p =>
+      Math.abs(p.distanceTo(circle.center) - circle.radius) <= circle.radius * CIRCLE_TOLERANCE &&
+      Math.abs(p.clone().sub(circle.center).dot(circle.normal)) <= circle.radius * CIRCLE_TOLERANCE
+    );
+    if (isRound) circles.push(circle);
+  }
+  return circles;
+};
+
+const getFeatures = (geometry: THREE.BufferGeometry) => {
+  let features = featureCache.get(geometry);
+  if (!features) {
+    const edgesGeometry = new THREE.EdgesGeometry(geometry, FEATURE_EDGE_ANGLE);
+    const edges = Float32Array.from(edgesGeometry.getAttribute('position').array);
+    edgesGeometry.dispose();
+    features = { edges, circles: findCircles(edges) };
+    featureCache.set(geometry, features);
+  }
+  return features;
+};
+
+/**
+ * Snaps a picked point (geometry coordinates) to the nearest feature of the requested kind.
+ * `faceIndex` is the triangle that was hit; vertex snapping picks one of its corners.
+ */
+export const snapPoint = (
+  geometry: THREE.BufferGeometry,
+  faceIndex: number,
+  point: THREE.Vector3,
+  mode: SnapMode
+): SnapResult => {
+  const surface: SnapResult = { point: [point.x, point.y, point.z], kind: 'surface' };
+  if (mode === 'none') return surface;
+
+  if (mode === 'vertex') {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const corner = new THREE.Vector3();
+    let best: THREE.Vector3 | null = null;
+    for (let k = 0; k < 3; k++) {
+      const vertex = index ? index.getX(faceIndex * 3 + k) : faceIndex * 3 + k;
+      corner.fromBufferAttribute(position, vertex);
+      if (!best || corner.distanceToSquared(point) < best.distanceToSquared(point)) best = corner.clone();
+    }
+    return best ? { point: [best.x, best.y, best.z], kind: 'vertex' } : surface;
+  }
+
+  const { edges, circles } = getFeatures(geometry);
+
+  if (mode === 'edge') {
+    const segment = new THREE.Line3();
+    const closest = new THREE.Vector3();
+    let best: SnapResult | null = null;
+    let bestDistance = Infinity;
+    for (let i = 0; i < edges.length; i += 6) {
+      segment.start.set(edges[i], edges[i + 1], edges[i + 2]);
+      segment.end.set(edges[i + 3], edges[i + 4], edges[i + 5]);
+      segment.closestPointToPoint(point, true, closest);
+      const distance = closest.distanceToSquared(point);
+      if (distance >= bestDistance) continue;
+      bestDistance = distance;
+      const midpoint = segment.getCenter(new THREE.Vector3());
+      best = closest.distanceTo(midpoint) <= segment.distance() * MIDPOINT_FRACTION
+        ? { point: [midpoint.x, midpoint.y, midpoint.z], kind: 'midpoint' }
+        : { point: [closest.x, closest.y, closest.z], kind: 'edge' };
+    }
+    return best ?? surface;
+  }
+
+  // Center: the circle whose rim passes closest to the picked point
+  let bestCircle: SnapFeatures['circles'][number] | null = null;
+  let bestDistance = Infinity;
+  for (const circle of circles) {
+    const offset = point.clone().sub(circle.center);
+    const axial = offset.dot(circle.normal);
+    const radial = Math.sqrt(Math.max(offset.lengthSq() - axial * axial, 0));
+    const distance = Math.hypot(radial - circle.radius, axial);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestCircle = circle;
+    }
+  }
+  return bestCircle
+    ? { point: [bestCircle.center.x, bestCircle.center.y, bestCircle.center.z], kind: 'center' }
+    : surface;
+};
@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+import { ModelView } from '../types';
+
+// Square image size for each rendered view (px)
+const VIEW_SIZE = 768;
+
+// Empty space around the models in each view
+const VIEW_MARGIN = 1.15;
+
+// Viewer is Y-up with the model's front facing +Z
+const STANDARD_VIEWS: { label: string, direction: [number, number, number], up: [number, number, number] }[] = [
+  { label: 'Front', direction: [0, 0, 1], up: [0, 1, 0] },
+  { label: 'Top', direction: [0, 1, 0], up: [0, 0, -1] },
+  { label: 'Right side', direction: [1, 0, 0], up: [0, 1, 0] },
+  { label: 'Isometric', direction: [1, 1, 1], up: [0, 1, 0] },
+];
+
+/**
+ * Bounds of the visible model meshes in world space. Meshes are recognized by the
+ * `sceneObjectId` the viewer stores in their userData.
+ */
+const modelBounds = (scene: THREE.Scene) => {
+  const box = new THREE.Box3();
+  scene.traverseVisible(child => {
+    if ((child as THREE.Mesh).isMesh && child.userData.sceneObjectId) box.expandByObject(child);
+  });
+  return box;
+};
+
+/**
+ * Renders front, top, side and isometric orthographic views of the scene's models.
+ * The views are drawn into the viewer's own canvas within one task, so they are
+ * never shown, and the canvas is put back for the next frame.
+ */
+export const renderStandardViews = (
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera
+): ModelView[] => {
+  const box = modelBounds(scene);
+  if (box.isEmpty()) return [];
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  const radius = Math.max(sphere.radius, 1e-3) * VIEW_MARGIN;
+
+  const size = gl.getSize(new THREE.Vector2());
+  const pixelRatio = gl.getPixelRatio();
+  // Fog is tuned for the perspective camera's distances
+  const fog = scene.fog;
+  scene.fog = null;
+  gl.setPixelRatio(1);
+  gl.setSize(VIEW_SIZE, VIEW_SIZE, false);
+
+  const viewCamera = new THREE.OrthographicCamera(-radius, radius, radius, -radius, radius * 0.01, radius * 4);
+  const views = STANDARD_VIEWS.map(({ label, direction, up }) => {
+    viewCamera.position.copy(sphere.center).addScaledVector(new THREE.Vector3(...direction).normalize(), radius * 2);
+    viewCamera.up.set(...up);
+    viewCamera.lookAt(sphere.center);
+    viewCamera.updateMatrixWorld();
+    gl.render(scene, viewCamera);
+    return { label, image: gl.domElement.toDataURL('image/png') };
+  });
+
+  scene.fog = fog;
+  gl.setPixelRatio(pixelRatio);
+  gl.setSize(size.x, size.y, false);
+  gl.render(scene, camera);
+  return views;
+};
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { STLExporter } from 'three-stdlib';
+
+// Binary STL files start with a free-form 80 byte header
+const BINARY_HEADER_SIZE = 80;
+
+/**
+ * Serializes a geometry as STL. The geometry is written in its own coordinates,
+ * so callers bake any transforms in beforehand. `header` is stored in the binary
+ * header or as the ASCII solid name, e.g. to carry a print estimate.
+ */
+export const geometryToSTL = (geometry: THREE.BufferGeometry, binary = true, header?: string): Blob => {
+  const mesh = new THREE.Mesh(geometry);
+  const exporter = new STLExporter();
+  // Readers treat a binary header starting with "solid" as ASCII
+  const name = header?.replace(/[^\x20-\x7e]/g, '').replace(/^solid/i, '').trim();
+  if (binary) {
+    const data = exporter.parse(mesh, { binary: true });
+    if (name) {
+      const bytes = new Uint8Array(data.buffer, data.byteOffset, BINARY_HEADER_SIZE);
+      bytes.set(new TextEncoder().encode(name).subarray(0, BINARY_HEADER_SIZE));
+    }
+    return new Blob([data.buffer as ArrayBuffer], { type: 'model/stl' });
+  }
+  let text = exporter.parse(mesh, { binary: false });
+  if (name) {
+    text = text.replace(/^solid exported/, `solid ${name}`).replace(/endsolid exported\s*$/, `endsolid ${name}\n`);
+  }
+  return new Blob([text], { type: 'model/stl' });
+};
+
+/**
+ * Returns a copy of the geometry as it appears on the floor in the viewer,
+ * converted back to the STL Z-up convention with its lowest point at Z=0.
+ */
+export const bakeViewerTransform = (
+  geometry: THREE.BufferGeometry,
+  rotation: THREE.Quaternion,
+  scale: number
+) => {
+  const baked = geometry.clone();
+  baked.applyQuaternion(rotation);
+  baked.scale(scale, scale, scale);
+
+  // Same floor offset STLModel applies to its group
+  baked.computeBoundingBox();
+  if (baked.boundingBox) {
+    baked.translate(0, -baked.boundingBox.min.y, 0);
+  }
+
+  // Undo the Z-up to Y-up conversion done on load
+  baked.applyQuaternion(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI / 2));
+  return baked;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import { SceneObject, TransformState } from '../types';
+import { computeMeshMetrics, computeTransformedBounds } from './meshMetrics';
+import { geometryToSTL } from './stlExport';
+
+const AXES = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+/**
+ * Rotates a mesh rotation about a viewer axis (world space) by the given angle.
+ */
+export const rotateAboutAxis = (rotation: THREE.Quaternion, axis: 'x' | 'y' | 'z', degrees: number) =>
+  new THREE.Quaternion()
+    .setFromAxisAngle(AXES[axis], THREE.MathUtils.degToRad(degrees))
+    .multiply(rotation);
+
+/**
+ * Geometry-space matrix that stretches the object by the given factors along the
+ * viewer axes at its current rotation. A negative factor mirrors that axis.
+ */
+export const axisScaleMatrix = (rotation: THREE.Quaternion, factors: [number, number, number]) => {
+  const rotate = new THREE.Matrix4().makeRotationFromQuaternion(rotation);
+  const unrotate = new THREE.Matrix4().makeRotationFromQuaternion(rotation.clone().invert());
+  return unrotate.multiply(new THREE.Matrix4().makeScale(...factors)).multiply(rotate);
+};
+
+// Mirroring turns the triangles inside out, so their winding is reversed
+const flipWinding = (geometry: THREE.BufferGeometry) => {
+  const index = geometry.getIndex();
+  if (index) {
+    for (let i = 0; i + 2 < index.count; i += 3) {
+      const b = index.getX(i + 1);
+      index.setX(i + 1, index.getX(i + 2));
+      index.setX(i + 2, b);
+    }
+    index.needsUpdate = true;
+    return;
+  }
+  for (const attribute of Object.values(geometry.attributes)) {
+    const { array, itemSize, count } = attribute as THREE.BufferAttribute;
+    for (let i = 0; i + 2 < count; i += 3) {
+      for (let k = 0; k < itemSize; k++) {
+        const b = array[(i + 1) * itemSize + k];
+        array[(i + 1) * itemSize + k] = array[(i + 2) * itemSize + k];
+        array[(i + 2) * itemSize + k] = b;
+      }
+    }
+    attribute.needsUpdate = true;
+  }
+};
+
+/**
+ * Applies a geometry-space matrix to a copy of the object's geometry and re-centers
+ * it like a freshly loaded model. Returns the new transform state, with a source file
+ * that reproduces the geometry when a session is restored, and the full matrix from
+ * old to new geometry coordinates (for the object's measurements).
+ */
+export const bakeGeometry = (object: SceneObject, matrix: THREE.Matrix4) => {
+  const geometry = object.geometry.clone();
+  geometry.deleteAttribute('color');
+  geometry.applyMatrix4(matrix);
+  if (matrix.determinant() < 0) flipWinding(geometry);
+
+  geometry.computeBoundingBox();
+  const center = geometry.boundingBox!.getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -center.z);
+  geometry.computeBoundingBox();
+
+  const name = `${object.name.replace(/\.[^.]+$/, '')}.stl`;
+  const state: TransformState = {
+    geometry,
+    metrics: computeMeshMetrics(geometry),
+    file: new File([geometryToSTL(geometry, true)], name, { type: 'model/stl' }),
+    sourceUnit: object.sourceUnit,
+    rotation: object.rotation.clone(),
+    scale: object.scale,
+  };
+  const bake = new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z).multiply(matrix);
+  return { state, bake };
+};
+
+/**
+ * World matrix of an object as the viewer places it: rotated, scaled and lifted onto
+ * the floor with its footprint centered on its position.
+ */
+export const placementMatrix = (object: SceneObject) => {
+  const box = computeTransformedBounds(object.geometry, object.rotation, object.scale);
+  const center = box.getCenter(new THREE.Vector3());
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(object.position[0] - center.x, -box.min.y, object.position[1] - center.z),
+    object.rotation,
+    new THREE.Vector3(object.scale, object.scale, object.scale)
+  );
+};
+
+/**
+ * Uniform scale at which a current dimension (mm, at `scale`) becomes `target` mm.
+ */
+export const scaleForDimension = (current: number, target: number, scale: number) =>
+  current > 0 && target > 0 ? scale * (target / current) : scale;
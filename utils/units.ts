@@ -0,0 +1,46 @@
+import { LengthUnit, ModelDimensions } from '../types';
+
+// Millimetres per unit
+export const UNIT_FACTORS: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+};
+
+export const UNIT_LABELS: Record<LengthUnit, string> = {
+  mm: 'mm',
+  cm: 'cm',
+  in: 'in',
+};
+
+// Below this largest dimension (mm) a part read as millimetres is suspiciously small
+const INCH_SUSPECT_SIZE = 12;
+
+export const formatLength = (mm: number, unit: LengthUnit, digits = 2) =>
+  `${(mm / UNIT_FACTORS[unit]).toFixed(digits)} ${UNIT_LABELS[unit]}`;
+
+export const formatArea = (mm2: number, unit: LengthUnit, digits = 2) =>
+  `${(mm2 / UNIT_FACTORS[unit] ** 2).toFixed(digits)} ${UNIT_LABELS[unit]}²`;
+
+// Metric volumes are shown in cm³ (mL), which reads better than mm³ for printed parts
+export const formatVolume = (mm3: number, unit: LengthUnit, digits = 2) =>
+  unit === 'in'
+    ? `${(mm3 / UNIT_FACTORS.in ** 3).toFixed(digits)} in³`
+    : `${(mm3 / 1000).toFixed(digits)} cm³`;
+
+/**
+ * Scale after changing an object's source unit: the model is re-read in the new
+ * unit while any user scaling on top of the old one is kept.
+ */
+export const rescaleForSourceUnit = (scale: number, from: LengthUnit, to: LengthUnit) =>
+  (scale * UNIT_FACTORS[to]) / UNIT_FACTORS[from];
+
+/**
+ * True when a part read as millimetres is so small that it was most likely
+ * exported in inches. `dimensions` are the displayed (scaled) size.
+ */
+export const looksLikeInches = (dimensions: ModelDimensions, scale: number, sourceUnit: LengthUnit) => {
+  if (sourceUnit !== 'mm') return false;
+  const largest = Math.max(dimensions.width, dimensions.height, dimensions.depth) / scale;
+  return largest > 0 && largest < INCH_SUSPECT_SIZE;
+};
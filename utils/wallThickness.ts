@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { ThinRegion } from '../types';
+import { forEachTriangle } from './meshMetrics';
+import { weldVertices, edgeKey } from './meshDiagnostics';
+
+export const DEFAULT_MIN_THICKNESS = 0.8;
+
+// How many thin regions the Sidebar summary lists
+const MAX_REGIONS = 5;
+
+// How often (in faces) the worker reports progress
+const PROGRESS_INTERVAL = 10000;
+
+const THIN_COLOR = new THREE.Color('#ef4444');
+const WARN_COLOR = new THREE.Color('#facc15');
+const OK_COLOR = new THREE.Color('#10b981');
+const OPEN_COLOR = new THREE.Color('#64748b');
+
+export interface WallThicknessRequest {
+  positions: Float32Array;
+  index: Uint32Array | null;
+}
+
+export type WallThicknessMessage =
+  | { type: 'progress', progress: number }
+  | { type: 'done', thickness: Float32Array, faces: Uint32Array }
+  | { type: 'error', message: string };
+
+/**
+ * Casts a ray from every face centroid inward along the negated face normal and
+ * records the distance to the first surface hit (geometry units). Faces whose ray
+ * escapes the mesh, e.g. on open or inside-out shells, get Infinity.
+ * Also returns the welded face list so thin regions can be grouped by connectivity.
+ */
+export const computeWallThickness = (
+  { positions, index }: WallThicknessRequest,
+  onProgress?: (progress: number) => void
+) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+
+  geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox!.getSize(new THREE.Vector3()).length();
+  const near = diagonal * 1e-6;
+
+  // Rays and topology are read first: building the BVH reorders the triangles
+  const { faces } = weldVertices(geometry);
+  const position = geometry.getAttribute('position');
+  const faceCount = faces.length / 3;
+  const rays = new Float32Array(faceCount * 6);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  forEachTriangle(geometry, (ia, ib, ic, face) => {
+    a.fromBufferAttribute(position, ia);
+    b.fromBufferAttribute(position, ib);
+    c.fromBufferAttribute(position, ic);
+    THREE.Triangle.getNormal(a, b, c, normal);
+    a.add(b).add(c).divideScalar(3).toArray(rays, face * 6);
+    normal.negate().toArray(rays, face * 6 + 3);
+  });
+
+  const bvh = new MeshBVH(geometry);
+  const thickness = new Float32Array(faceCount).fill(Infinity);
+  const ray = new THREE.Ray();
+  for (let face = 0; face < faceCount; face++) {
+    ray.origin.fromArray(rays, face * 6);
+    ray.direction.fromArray(rays, face * 6 + 3);
+    if (ray.direction.lengthSq() > 0) {
+      const hit = bvh.raycastFirst(ray, THREE.DoubleSide, near, Infinity);
+      if (hit) thickness[face] = hit.distance;
+    }
+    if (onProgress && face % PROGRESS_INTERVAL === 0) onProgress(face / faceCount);
+  }
+
+  return { thickness, faces };
+};
+
+/**
+ * Runs computeWallThickness in a Web Worker. The geometry's buffers are copied, so
+ * the render geometry stays usable; `cancel` terminates the worker and rejects with
+ * an AbortError.
+ */
+export const analyzeWallThickness = (
+  geometry: THREE.BufferGeometry,
+  onProgress: (progress: number) => void
+) => {
+  const worker = new Worker(new URL('./wallThickness.worker.ts', import.meta.url), { type: 'module' });
+  const index = geometry.getIndex();
+  const request: WallThicknessRequest = {
+    positions: Float32Array.from(geometry.getAttribute('position').array),
+    index: index ? Uint32Array.from(index.array) : null,
+  };
+
+  let cancel = () => {};
+  const promise = new Promise<{ thickness: Float32Array, faces: Uint32Array }>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new DOMException('Analysis cancelled.', 'AbortError'));
+    };
+    worker.onmessage = (event: MessageEvent<WallThicknessMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve({ thickness: message.thickness, faces: message.faces });
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.error('Wall thickness worker failed:', event.message);
+      reject(new Error('Wall thickness analysis failed.'));
+    };
+  });
+
+  const transfer = request.index ? [request.positions.buffer, request.index.buffer] : [request.positions.buffer];
+  worker.postMessage(request, transfer);
+  return { promise, cancel };
+};
+
+/**
+ * Per-vertex heatmap colors: red below the minimum, yellow to green up to twice
+ * the minimum, grey where no opposite wall was found. `scale` converts to mm.
+ */
+export const computeThicknessColors = (
+  geometry: THREE.BufferGeometry,
+  thickness: Float32Array,
+  scale: number,
+  minThickness: number
+) => {
+  const colors = new Float32Array(geometry.getAttribute('position').count * 3);
+  const color = new THREE.Color();
+
+  forEachTriangle(geometry, (ia, ib, ic, face) => {
+    const value = thickness[face] * scale;
+    if (!Number.isFinite(value)) color.copy(OPEN_COLOR);
+    else if (value < minThickness) color.copy(THIN_COLOR);
+    else color.copy(WARN_COLOR).lerp(OK_COLOR, Math.min((value - minThickness) / minThickness, 1));
+
+    for (const i of [ia, ib, ic]) {
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    }
+  });
+
+  return colors;
+};
+
+/**
+ * Groups edge-connected faces thinner than the minimum into regions and returns the
+ * thinnest ones with their area (mm²) and center in geometry coordinates.
+ */
+export const summarizeThinRegions = (
+  geometry: THREE.BufferGeometry,
+  thickness: Float32Array,
+  faces: Uint32Array,
+  scale: number,
+  minThickness: number
+) => {
+  const position = geometry.getAttribute('position');
+  const faceCount = thickness.length;
+  const isThin = (face: number) => thickness[face] * scale < minThickness;
+
+  // Edge adjacency restricted to thin faces
+  const edges = new Map<number, number[]>();
+  let vertexCount = 0;
+  for (let i = 0; i < faces.length; i++) vertexCount = Math.max(vertexCount, faces[i] + 1);
+  for (let face = 0; face < faceCount; face++) {
+    if (!isThin(face)) continue;
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(faces[face * 3 + k], faces[face * 3 + (k + 1) % 3], vertexCount);
+      const list = edges.get(key);
+      if (list) list.push(face);
+      else edges.set(key, [face]);
+    }
+  }
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const triangle = new THREE.Triangle(a, b, c);
+  const faceCorners = (face: number) => {
+    const index = geometry.getIndex();
+    const corner = (k: number) => (index ? index.getX(face * 3 + k) : face * 3 + k);
+    a.fromBufferAttribute(position, corner(0));
+    b.fromBufferAttribute(position, corner(1));
+    c.fromBufferAttribute(position, corner(2));
+  };
+
+  const visited = new Uint8Array(faceCount);
+  const regions: ThinRegion[] = [];
+  let thinArea = 0;
+
+  for (let start = 0; start < faceCount; start++) {
+    if (visited[start] || !isThin(start)) continue;
+    visited[start] = 1;
+    const stack = [start];
+    let area = 0;
+    let minimum = Infinity;
+    const center = new THREE.Vector3();
+
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      faceCorners(face);
+      const faceArea = triangle.getArea() * scale * scale;
+      area += faceArea;
+      minimum = Math.min(minimum, thickness[face] * scale);
+      center.addScaledVector(a.add(b).add(c).divideScalar(3), faceArea);
+
+      for (let k = 0; k < 3; k++) {
+        const key = edgeKey(faces[face * 3 + k], faces[face * 3 + (k + 1) % 3], vertexCount);
+        for (const next of edges.get(key) ?? []) {
+          if (!visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    if (area > 0) center.divideScalar(area);
+    thinArea += area;
+    regions.push({ minThickness: minimum, area, center: [center.x, center.y, center.z] });
+  }
+
+  regions.sort((x, y) => x.minThickness - y.minThickness);
+  return { thinArea, regionCount: regions.length, regions: regions.slice(0, MAX_REGIONS) };
+};
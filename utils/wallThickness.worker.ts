@@ -0,0 +1,13 @@
+import { computeWallThickness, WallThicknessRequest, WallThicknessMessage } from './wallThickness';
+
+const post = (message: WallThicknessMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<WallThicknessRequest>) => {
+  try {
+    const { thickness, faces } = computeWallThickness(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', thickness, faces }, [thickness.buffer, faces.buffer]);
+  } catch (error: any) {
+    console.error('Wall thickness analysis failed:', error);
+    post({ type: 'error', message: 'Wall thickness analysis failed.' });
+  }
+};